@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { parseLevelPointsBatchRequest, scoreLevelPointsRequest } from "../../../utils/levelPointsRequest";
+
+/**
+ * Scores many levels in one request.
+ *
+ * - The body holds `levels`, each shaped like the body of the single level route, plus a shared `profile` and `trace`
+ * - Results are returned in the order of the levels
+ * - Responds with 400 and a list of `errors` when any level is invalid
+ */
+export async function POST(request: Request) {
+	let body: unknown;
+
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ errors: ["The request body must be valid JSON"] }, { status: 400 });
+	}
+
+	const parsed = parseLevelPointsBatchRequest(body);
+	if (!parsed.success) {
+		return NextResponse.json({ errors: parsed.errors }, { status: 400 });
+	}
+
+	return NextResponse.json({
+		results: parsed.request.levels.map((level) => scoreLevelPointsRequest(level, parsed.request)),
+	});
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { parseLevelPointsRequest, scoreLevelPointsRequest } from "../../utils/levelPointsRequest";
+
+/**
+ * Scores a single level.
+ *
+ * - The body holds either `topTimes`, `personalBests`, `totalRecords` and `levelRating` or leaderboard `records`
+ * - Optional `profile` overrides the default scoring profile and `trace: true` adds the calculation trace
+ * - Responds with 400 and a list of `errors` when the body is invalid
+ */
+export async function POST(request: Request) {
+	let body: unknown;
+
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ errors: ["The request body must be valid JSON"] }, { status: 400 });
+	}
+
+	const parsed = parseLevelPointsRequest(body);
+	if (!parsed.success) {
+		return NextResponse.json({ errors: parsed.errors }, { status: 400 });
+	}
+
+	return NextResponse.json(scoreLevelPointsRequest(parsed.request.level, parsed.request));
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { ClipboardCopy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { CalculateLevelPointsResult } from "../utils/calculateLevelPoints";
+import {
+  createLevelExport,
+  exportBestTimesCsv,
+  exportLevelJson,
+  exportLevelMarkdown,
+  exportRecordsCsv,
+  exportResultCsv,
+} from "../utils/exportLevel";
+import type { Level } from "../utils/level";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface ExportPanelProps {
+  level: Level;
+  result: CalculateLevelPointsResult;
+  profile: ScoringProfile;
+}
+
+// Save text as a file through a temporary download link
+function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Turn a level name into something safe to use in a file name
+function toFileName(name: string): string {
+  return name.trim().replace(/[^a-z0-9-_]+/gi, "-").toLowerCase() || "level";
+}
+
+export function ExportPanel({ level, result, profile }: ExportPanelProps) {
+  const [copyStatus, setCopyStatus] = useState<"copied" | "failed" | null>(
+    null
+  );
+
+  const levelExport = createLevelExport(level, result, profile);
+  const baseName = toFileName(level.name);
+
+  // The clipboard can be unavailable, e.g. without permission or outside a secure context
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(exportLevelMarkdown(levelExport));
+      setCopyStatus("copied");
+    } catch {
+      setCopyStatus("failed");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() =>
+            downloadFile(
+              `${baseName}.json`,
+              exportLevelJson(levelExport),
+              "application/json"
+            )
+          }
+        >
+          <Download className="h-4 w-4" />
+          JSON
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() =>
+            downloadFile(
+              `${baseName}.md`,
+              exportLevelMarkdown(levelExport),
+              "text/markdown"
+            )
+          }
+        >
+          <Download className="h-4 w-4" />
+          Markdown
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() =>
+            downloadFile(
+              `${baseName}-times.csv`,
+              exportRecordsCsv(levelExport),
+              "text/csv"
+            )
+          }
+        >
+          <Download className="h-4 w-4" />
+          All Times CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() =>
+            downloadFile(
+              `${baseName}-best-times.csv`,
+              exportBestTimesCsv(levelExport),
+              "text/csv"
+            )
+          }
+        >
+          <Download className="h-4 w-4" />
+          Best Times CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() =>
+            downloadFile(
+              `${baseName}-result.csv`,
+              exportResultCsv(levelExport),
+              "text/csv"
+            )
+          }
+        >
+          <Download className="h-4 w-4" />
+          Result CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={copyMarkdown}
+        >
+          <ClipboardCopy className="h-4 w-4" />
+          {copyStatus === "copied" ? "Copied!" : "Copy Markdown"}
+        </Button>
+      </div>
+      {copyStatus === "failed" && (
+        <p className="text-sm text-red-500">
+          Couldn&apos;t copy to the clipboard. Download the Markdown file
+          instead.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Importing the JSON file restores the times and the rating and offers to
+        apply the scoring profile. The All Times CSV file only restores the
+        times.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CalculateLevelScore } from "../utils/calculateLevelPoints";
+import {
+  compareLevelPointsFormulas,
+  getLevelPointsFormulas,
+} from "../utils/formulaRegistry";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface FormulaComparisonProps {
+  input: CalculateLevelScore;
+  profile: ScoringProfile;
+}
+
+// Format a delta with an explicit sign so increases and decreases stand out
+function formatDelta(value: number, digits = 3): string {
+  const formatted = value.toFixed(digits);
+  return value > 0 ? `+${formatted}` : formatted;
+}
+
+export function FormulaComparison({ input, profile }: FormulaComparisonProps) {
+  const formulas = getLevelPointsFormulas();
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    formulas.map((formula) => formula.id)
+  );
+
+  // Toggle whether a formula takes part in the comparison
+  const toggleFormula = (id: string, checked: boolean) => {
+    setSelectedIds(
+      checked
+        ? [...selectedIds, id]
+        : selectedIds.filter((selectedId) => selectedId !== id)
+    );
+  };
+
+  const comparison = compareLevelPointsFormulas(
+    input,
+    formulas.filter((formula) => selectedIds.includes(formula.id)),
+    profile
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4">
+        {formulas.map((formula) => (
+          <div key={formula.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`formula-${formula.id}`}
+              checked={selectedIds.includes(formula.id)}
+              onCheckedChange={(checked) =>
+                toggleFormula(formula.id, checked === true)
+              }
+            />
+            <Label htmlFor={`formula-${formula.id}`} title={formula.description}>
+              {formula.id}: {formula.name}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      {comparison.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Select at least one formula to compare.
+        </p>
+      ) : (
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Formula</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+                <TableHead className="text-right">Δ Points</TableHead>
+                <TableHead className="text-right">Δ WR</TableHead>
+                <TableHead className="text-right">Δ Comp.</TableHead>
+                <TableHead className="text-right">Δ Rating</TableHead>
+                <TableHead className="text-right">Δ Pop.</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.map(({ formula, result, pointsDelta, contributionDeltas }) => (
+                <TableRow key={formula.id}>
+                  <TableCell className="font-medium">{formula.id}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {result.points}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatDelta(pointsDelta, 0)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatDelta(contributionDeltas.length)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatDelta(contributionDeltas.competitiveness)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatDelta(contributionDeltas.rating)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatDelta(contributionDeltas.popularity)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Deltas are relative to the first selected formula.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CalculateLevelScore } from "../utils/calculateLevelPoints";
+import {
+  GOAL_SEEK_VARIABLES,
+  goalSeek,
+  goalSeekRegion,
+  goalSeekVariableLabel,
+  type GoalSeekVariable,
+} from "../utils/goalSeek";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface GoalSeekProps {
+  input: CalculateLevelScore;
+  profile: ScoringProfile;
+  currentPoints: number;
+}
+
+const NO_SECOND_VARIABLE = "none";
+
+const chartConfig = {
+  minimumY: {
+    label: "Lowest value reaching the target",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+// Format a solved value in the unit of its variable
+function formatGoalValue(variable: GoalSeekVariable, value: number): string {
+  switch (variable) {
+    case "wrTime":
+      return `${value.toFixed(2)}s`;
+    case "personalBests":
+      return value.toString();
+    case "levelRating":
+      return value.toFixed(1);
+    case "top50Spread":
+      return value.toFixed(3);
+  }
+}
+
+export function GoalSeek({ input, profile, currentPoints }: GoalSeekProps) {
+  const [target, setTarget] = useState(
+    Math.ceil((currentPoints + 1) / 500) * 500
+  );
+  const [variable, setVariable] = useState<GoalSeekVariable>("wrTime");
+  const [secondVariable, setSecondVariable] = useState<
+    GoalSeekVariable | typeof NO_SECOND_VARIABLE
+  >(NO_SECOND_VARIABLE);
+
+  const result = goalSeek(input, variable, target, profile);
+  const region =
+    secondVariable === NO_SECOND_VARIABLE
+      ? null
+      : goalSeekRegion(input, variable, secondVariable, target, profile);
+  const secondResult =
+    secondVariable === NO_SECOND_VARIABLE
+      ? null
+      : goalSeek(input, secondVariable, target, profile);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <Label htmlFor="goal-seek-target">Target points</Label>
+          <Input
+            id="goal-seek-target"
+            type="number"
+            min={0}
+            step={100}
+            value={target}
+            onChange={(e) =>
+              setTarget(Math.max(0, Number.parseFloat(e.target.value) || 0))
+            }
+          />
+        </div>
+        <div>
+          <Label htmlFor="goal-seek-variable">Solve for</Label>
+          <Select
+            value={variable}
+            onValueChange={(value) => {
+              setVariable(value as GoalSeekVariable);
+              if (value === secondVariable) {
+                setSecondVariable(NO_SECOND_VARIABLE);
+              }
+            }}
+          >
+            <SelectTrigger id="goal-seek-variable">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GOAL_SEEK_VARIABLES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {goalSeekVariableLabel(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="goal-seek-second-variable">Together with</Label>
+          <Select
+            value={secondVariable}
+            onValueChange={(value) =>
+              setSecondVariable(value as GoalSeekVariable)
+            }
+          >
+            <SelectTrigger id="goal-seek-second-variable">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SECOND_VARIABLE}>Nothing else</SelectItem>
+              {GOAL_SEEK_VARIABLES.filter((option) => option !== variable).map(
+                (option) => (
+                  <SelectItem key={option} value={option}>
+                    {goalSeekVariableLabel(option)}
+                  </SelectItem>
+                )
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {[result, secondResult].map(
+        (solved) =>
+          solved && (
+            <div key={solved.variable} className="p-4 border rounded-md bg-muted">
+              <h4 className="text-sm font-medium mb-1">{solved.label}</h4>
+              {solved.success ? (
+                <>
+                  <div className="text-2xl font-bold font-mono">
+                    {formatGoalValue(solved.variable, solved.value)}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Reaches {solved.points} points, currently{" "}
+                    {formatGoalValue(solved.variable, solved.current.value)} for{" "}
+                    {solved.current.points} points.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="text-sm font-medium text-destructive">
+                    Unreachable: {solved.reason}.
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Closest is{" "}
+                    {formatGoalValue(solved.variable, solved.closest.value)} for{" "}
+                    {solved.closest.points} points.
+                  </p>
+                </>
+              )}
+            </div>
+          )
+      )}
+
+      {region && (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+            <LineChart data={region.rows} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="x"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(value) =>
+                  formatGoalValue(region.x.variable, value)
+                }
+              />
+              <YAxis
+                width={48}
+                domain={[region.y.range.min, region.y.range.max]}
+                tickFormatter={(value) =>
+                  formatGoalValue(region.y.variable, value)
+                }
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      `${region.x.label}: ${formatGoalValue(
+                        region.x.variable,
+                        payload[0]?.payload.x ?? 0
+                      )}`
+                    }
+                  />
+                }
+              />
+              <ReferenceDot
+                x={result.current.value}
+                y={secondResult?.current.value}
+                r={4}
+                fill="hsl(var(--muted-foreground))"
+                stroke="none"
+              />
+              <Line
+                dataKey="minimumY"
+                type="linear"
+                stroke="var(--color-minimumY)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground">
+            Combinations on or above the line reach {target} points; gaps mean
+            no value of {region.y.label} is enough. The dot marks the current
+            level.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
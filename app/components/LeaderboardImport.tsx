@@ -0,0 +1,135 @@
+import { useState, type ChangeEvent } from "react";
+import { Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  importLeaderboardFile,
+  type LeaderboardLevel,
+} from "../utils/importLeaderboard";
+import type { Player } from "../utils/player";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface LeaderboardImportProps {
+  /** The scoring profile of the workspace, compared with the profile of an imported level export. */
+  profile: ScoringProfile;
+  onImport: (players: Player[], level: LeaderboardLevel) => void;
+  onApplyProfile: (profile: ScoringProfile) => void;
+}
+
+export function LeaderboardImport({
+  profile,
+  onImport,
+  onApplyProfile,
+}: LeaderboardImportProps) {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [summary, setSummary] = useState<string | null>(null);
+  // Profile of an imported level export, offered instead of applied as it changes the points of every level
+  const [importedProfile, setImportedProfile] = useState<ScoringProfile | null>(
+    null
+  );
+
+  // Read the selected file and hand the imported players to the parent
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const result = importLeaderboardFile(file.name, await file.text());
+
+    if (!result.success) {
+      setErrors(result.errors);
+      setWarnings([]);
+      setSummary(null);
+      setImportedProfile(null);
+      return;
+    }
+
+    setErrors([]);
+    setWarnings(result.warnings);
+    setSummary(
+      `Imported ${result.recordCount} records from ${result.players.length} players` +
+        (result.level.name ? ` for ${result.level.name}` : "")
+    );
+    setImportedProfile(
+      result.profile &&
+        JSON.stringify(result.profile) !== JSON.stringify(profile)
+        ? result.profile
+        : null
+    );
+    onImport(result.players, result.level);
+  };
+
+  // Apply the imported profile to the whole workspace
+  const applyImportedProfile = () => {
+    if (importedProfile) {
+      onApplyProfile(importedProfile);
+    }
+    setImportedProfile(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="leaderboard-import" className="flex items-center gap-2">
+        <Upload className="h-4 w-4" />
+        Import Leaderboard (JSON or CSV)
+      </Label>
+      <Input
+        id="leaderboard-import"
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        onChange={handleFileChange}
+      />
+      {summary && <p className="text-sm text-muted-foreground">{summary}</p>}
+      {warnings.length > 0 && (
+        <Alert>
+          <AlertTitle>Imported with warnings</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc ml-5 max-h-32 overflow-y-auto">
+              {warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {importedProfile && (
+        <Alert>
+          <AlertTitle>Apply the imported scoring profile?</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              The export was scored with a different profile. Applying it
+              changes the points of every level in the workspace.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={applyImportedProfile}>
+                Apply Profile
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setImportedProfile(null)}
+              >
+                Keep Current Profile
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>Import failed</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc ml-5 max-h-32 overflow-y-auto">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_LEADERBOARD_DISTRIBUTIONS,
+  type LeaderboardDistribution,
+  type LeaderboardDistributionType,
+  type LeaderboardSimulationOptions,
+} from "../utils/simulateLeaderboard";
+
+interface LeaderboardSimulationProps {
+  onGenerate: (options: LeaderboardSimulationOptions) => void;
+}
+
+const DISTRIBUTION_LABELS: Record<LeaderboardDistributionType, string> = {
+  uniform: "Uniform",
+  logNormal: "Log-normal above WR floor",
+  exponential: "Exponential tail above WR floor",
+  skillTiers: "Skill tiers",
+};
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ id, label, value, step = 1, max, onChange }: NumberFieldProps) {
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Number.parseFloat(e.target.value) || 0)}
+      />
+    </div>
+  );
+}
+
+export function LeaderboardSimulation({ onGenerate }: LeaderboardSimulationProps) {
+  const [distribution, setDistribution] = useState<LeaderboardDistribution>(
+    DEFAULT_LEADERBOARD_DISTRIBUTIONS.logNormal
+  );
+  const [playerCount, setPlayerCount] = useState(50);
+  const [attemptsPerPlayer, setAttemptsPerPlayer] = useState(10);
+  const [attemptSpread, setAttemptSpread] = useState(0.05);
+  const [improvementRate, setImprovementRate] = useState(0.2);
+  const [activeDays, setActiveDays] = useState(30);
+
+  const generate = () => {
+    onGenerate({
+      distribution,
+      playerCount,
+      attemptsPerPlayer,
+      attemptSpread,
+      improvementRate,
+      activeDays,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="simulation-distribution">Distribution</Label>
+        <Select
+          value={distribution.type}
+          onValueChange={(type) =>
+            setDistribution(
+              DEFAULT_LEADERBOARD_DISTRIBUTIONS[type as LeaderboardDistributionType]
+            )
+          }
+        >
+          <SelectTrigger id="simulation-distribution">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DISTRIBUTION_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {distribution.type === "uniform" && (
+          <>
+            <NumberField
+              id="simulation-min"
+              label="Minimum time (s)"
+              value={distribution.min}
+              onChange={(min) => setDistribution({ ...distribution, min })}
+            />
+            <NumberField
+              id="simulation-max"
+              label="Maximum time (s)"
+              value={distribution.max}
+              onChange={(max) => setDistribution({ ...distribution, max })}
+            />
+          </>
+        )}
+        {distribution.type !== "uniform" && (
+          <NumberField
+            id="simulation-wr-floor"
+            label="WR floor (s)"
+            value={distribution.wrFloor}
+            step={0.1}
+            onChange={(wrFloor) => setDistribution({ ...distribution, wrFloor })}
+          />
+        )}
+        {distribution.type === "logNormal" && (
+          <>
+            <NumberField
+              id="simulation-median-gap"
+              label="Median gap to floor (s)"
+              value={distribution.medianGap}
+              step={0.1}
+              onChange={(medianGap) =>
+                setDistribution({ ...distribution, medianGap })
+              }
+            />
+            <NumberField
+              id="simulation-sigma"
+              label="Sigma"
+              value={distribution.sigma}
+              step={0.1}
+              onChange={(sigma) => setDistribution({ ...distribution, sigma })}
+            />
+          </>
+        )}
+        {distribution.type === "exponential" && (
+          <NumberField
+            id="simulation-mean-gap"
+            label="Mean gap to floor (s)"
+            value={distribution.meanGap}
+            step={0.1}
+            onChange={(meanGap) => setDistribution({ ...distribution, meanGap })}
+          />
+        )}
+        <NumberField
+          id="simulation-players"
+          label="Players"
+          value={playerCount}
+          max={1000}
+          onChange={(value) =>
+            setPlayerCount(Math.min(1000, Math.max(0, Math.floor(value))))
+          }
+        />
+        <NumberField
+          id="simulation-attempts"
+          label="Attempts per player"
+          value={attemptsPerPlayer}
+          max={50}
+          onChange={(value) =>
+            setAttemptsPerPlayer(Math.min(50, Math.max(1, Math.floor(value))))
+          }
+        />
+        <NumberField
+          id="simulation-attempt-spread"
+          label="Attempt spread (fraction)"
+          value={attemptSpread}
+          step={0.01}
+          onChange={setAttemptSpread}
+        />
+        <NumberField
+          id="simulation-improvement"
+          label="Improvement per attempt (0–1)"
+          value={improvementRate}
+          step={0.05}
+          onChange={(value) => setImprovementRate(Math.min(1, Math.max(0, value)))}
+        />
+        <NumberField
+          id="simulation-active-days"
+          label="Days of play"
+          value={activeDays}
+          onChange={(value) => setActiveDays(Math.max(1, value))}
+        />
+      </div>
+
+      {distribution.type === "skillTiers" && (
+        <p className="text-xs text-muted-foreground">
+          Tiers:{" "}
+          {distribution.tiers
+            .map(
+              (tier) =>
+                `${Math.round(tier.share * 100)}% at +${tier.minGap}–${tier.maxGap}s`
+            )
+            .join(", ")}
+        </p>
+      )}
+
+      <Button onClick={generate} className="w-full flex items-center gap-2">
+        <Sparkles className="h-4 w-4" />
+        Generate Leaderboard
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Replaces the players of the active level. Uses the seed from the
+        random time settings, so the same steps always generate the same
+        leaderboard.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { LevelPointsTraceStep } from "../utils/explainLevelPoints";
+
+interface LevelPointsTraceProps {
+  trace: LevelPointsTraceStep[];
+}
+
+// Format a trace value with enough precision to follow the calculation
+function formatTraceValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(4);
+}
+
+export function LevelPointsTrace({ trace }: LevelPointsTraceProps) {
+  return (
+    <div className="border rounded-md max-h-[50vh] overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Step</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+            <TableHead>Why</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {trace.map((step) => (
+            <TableRow key={step.key}>
+              <TableCell>
+                <div className="font-medium">{step.label}</div>
+                <div className="text-xs text-muted-foreground capitalize">
+                  {step.factor}
+                </div>
+              </TableCell>
+              <TableCell className="text-right font-mono">
+                {formatTraceValue(step.value)}
+              </TableCell>
+              <TableCell className="text-xs">
+                {step.branch && (
+                  <Badge variant="outline" className="mr-2">
+                    {step.branch}
+                  </Badge>
+                )}
+                {step.reason}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  levelScoreRatingContribution,
+  levelScoreRatingModifier,
+} from "../utils/calculateLevelPoints";
+import {
+  EMPTY_RATING_VOTES,
+  RATING_VOTES,
+  RATING_VOTE_VALUES,
+  ratingFromVotes,
+  totalRatingVotes,
+  type RatingVote,
+  type RatingVoteCounts,
+} from "../utils/levelRatingVotes";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface LevelRatingPanelProps {
+  rating: number;
+  votes: RatingVoteCounts;
+  profile: ScoringProfile;
+  onChange: (changes: { rating: number; votes: RatingVoteCounts }) => void;
+}
+
+export function LevelRatingPanel({
+  rating,
+  votes,
+  profile,
+  onChange,
+}: LevelRatingPanelProps) {
+  // Store new vote counts and derive the rating from them when anyone voted
+  const updateVotes = (newVotes: RatingVoteCounts) => {
+    onChange({ votes: newVotes, rating: ratingFromVotes(newVotes) ?? rating });
+  };
+
+  // Set the count of a single vote type
+  const setVoteCount = (vote: RatingVote, count: number) => {
+    updateVotes({ ...votes, [vote]: Math.max(0, Math.floor(count)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-2">
+        {RATING_VOTES.map((vote) => (
+          <div key={vote} className="space-y-1">
+            <Label htmlFor={`votes-${vote}`} className="font-mono">
+              {vote} ({RATING_VOTE_VALUES[vote]})
+            </Label>
+            <Input
+              id={`votes-${vote}`}
+              type="number"
+              min={0}
+              value={votes[vote]}
+              onChange={(e) =>
+                setVoteCount(vote, Number.parseInt(e.target.value) || 0)
+              }
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full font-mono"
+              onClick={() => setVoteCount(vote, votes[vote] + 1)}
+              title={`Add a ${vote} voter`}
+            >
+              +1 {vote}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label htmlFor="level-rating">Rating (0–100)</Label>
+          <Input
+            id="level-rating"
+            type="number"
+            min={0}
+            max={100}
+            value={rating}
+            disabled={totalRatingVotes(votes) > 0}
+            onChange={(e) =>
+              onChange({ votes, rating: Number.parseFloat(e.target.value) || 0 })
+            }
+          />
+        </div>
+        <Button
+          variant="ghost"
+          onClick={() => onChange({ votes: EMPTY_RATING_VOTES, rating })}
+          disabled={totalRatingVotes(votes) === 0}
+        >
+          Clear votes
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div className="p-2 border rounded-md bg-muted">
+          <div className="text-xs text-muted-foreground">Votes</div>
+          <div className="font-bold">{totalRatingVotes(votes)}</div>
+        </div>
+        <div className="p-2 border rounded-md bg-muted">
+          <div className="text-xs text-muted-foreground">Modifier</div>
+          <div className="font-bold font-mono">
+            {levelScoreRatingModifier(rating, profile).toFixed(3)}
+          </div>
+        </div>
+        <div className="p-2 border rounded-md bg-muted">
+          <div className="text-xs text-muted-foreground">Applied</div>
+          <div className="font-bold font-mono">
+            {levelScoreRatingContribution(rating, profile).toFixed(3)}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The rating is the average value of all votes, shown in brackets next
+        to each vote. Without votes the rating can be entered by hand.
+      </p>
+    </div>
+  );
+}
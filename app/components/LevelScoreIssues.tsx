@@ -0,0 +1,51 @@
+import { AlertTriangle, XCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { LevelScoreIssue } from "../utils/validateLevelScore";
+
+interface LevelScoreIssuesProps {
+  errors: LevelScoreIssue[];
+  warnings: LevelScoreIssue[];
+}
+
+interface IssueListProps {
+  issues: LevelScoreIssue[];
+}
+
+function IssueList({ issues }: IssueListProps) {
+  return (
+    <ul className="list-disc ml-5 max-h-32 overflow-y-auto">
+      {issues.map((issue, index) => (
+        <li key={index}>{issue.message}</li>
+      ))}
+    </ul>
+  );
+}
+
+export function LevelScoreIssues({ errors, warnings }: LevelScoreIssuesProps) {
+  if (errors.length === 0 && warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>Points can't be calculated</AlertTitle>
+          <AlertDescription>
+            <IssueList issues={errors} />
+          </AlertDescription>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Check the inputs</AlertTitle>
+          <AlertDescription>
+            <IssueList issues={warnings} />
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getLevelScoreInput, type Level } from "../utils/level";
+import type { ScoringProfile } from "../utils/scoringProfile";
+import { safeCalculateLevelPoints } from "../utils/validateLevelScore";
+
+interface LevelSummaryTableProps {
+  levels: Level[];
+  activeLevelId: string;
+  profile: ScoringProfile;
+  onSelectLevel: (levelId: string) => void;
+}
+
+export function LevelSummaryTable({
+  levels,
+  activeLevelId,
+  profile,
+  onSelectLevel,
+}: LevelSummaryTableProps) {
+  // Score every level and rank the map pool by points, levels with input errors last
+  const rows = levels
+    .map((level) => ({
+      level,
+      outcome: safeCalculateLevelPoints(getLevelScoreInput(level), profile),
+    }))
+    .sort((a, b) =>
+      a.outcome.success && b.outcome.success
+        ? b.outcome.result.points - a.outcome.result.points
+        : Number(b.outcome.success) - Number(a.outcome.success)
+    );
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Level</TableHead>
+            <TableHead className="text-right">Points</TableHead>
+            <TableHead className="text-right">WR</TableHead>
+            <TableHead className="text-right">Comp.</TableHead>
+            <TableHead className="text-right">Rating</TableHead>
+            <TableHead className="text-right">Pop.</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ level, outcome }, index) => (
+            <TableRow
+              key={level.id}
+              className="cursor-pointer"
+              data-state={level.id === activeLevelId ? "selected" : undefined}
+              onClick={() => onSelectLevel(level.id)}
+            >
+              <TableCell>{index + 1}</TableCell>
+              <TableCell className="font-medium">{level.name}</TableCell>
+              {!outcome.success ? (
+                <TableCell
+                  colSpan={5}
+                  className="text-right text-red-500"
+                  title={outcome.errors.map((error) => error.message).join("\n")}
+                >
+                  Invalid input
+                </TableCell>
+              ) : (
+                <>
+                  <TableCell className="text-right font-bold">
+                    {outcome.result.points}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {outcome.result.contributions.length.toFixed(3)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {outcome.result.contributions.competitiveness.toFixed(3)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {outcome.result.contributions.rating.toFixed(3)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {outcome.result.contributions.popularity.toFixed(3)}
+                  </TableCell>
+                </>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
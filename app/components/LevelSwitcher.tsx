@@ -0,0 +1,60 @@
+import { PlusCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Level } from "../utils/level";
+
+interface LevelSwitcherProps {
+  levels: Level[];
+  activeLevelId: string;
+  onSelectLevel: (levelId: string) => void;
+  onAddLevel: () => void;
+  onRemoveLevel: (levelId: string) => void;
+}
+
+export function LevelSwitcher({
+  levels,
+  activeLevelId,
+  onSelectLevel,
+  onAddLevel,
+  onRemoveLevel,
+}: LevelSwitcherProps) {
+  return (
+    <div className="flex gap-2">
+      <Select value={activeLevelId} onValueChange={onSelectLevel}>
+        <SelectTrigger aria-label="Active level">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {levels.map((level) => (
+            <SelectItem key={level.id} value={level.id}>
+              {level.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="secondary"
+        onClick={onAddLevel}
+        className="flex items-center gap-2"
+      >
+        <PlusCircle className="h-4 w-4" />
+        New Level
+      </Button>
+      <Button
+        variant="ghost"
+        className="text-red-500 hover:text-red-700 hover:bg-red-100"
+        onClick={() => onRemoveLevel(activeLevelId)}
+        disabled={levels.length <= 1}
+        title="Remove level"
+      >
+        Remove
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import type { Level } from "../utils/level";
+import {
+  levelAsOf,
+  levelPointsAsOf,
+  levelPointsTimeline,
+  levelSubmissionTimes,
+} from "../utils/levelTimeline";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface LevelTimelineProps {
+  level: Level;
+  profile: ScoringProfile;
+}
+
+const chartConfig = {
+  points: {
+    label: "Points",
+    color: "hsl(var(--chart-4))",
+  },
+} satisfies ChartConfig;
+
+// Format a timestamp for axis ticks
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function LevelTimeline({ level, profile }: LevelTimelineProps) {
+  // Index into the submission times; null follows the latest submission
+  const [position, setPosition] = useState<number | null>(null);
+
+  const submissionTimes = levelSubmissionTimes(level);
+  const timeline = levelPointsTimeline(level, profile);
+  const index = Math.min(
+    position ?? submissionTimes.length - 1,
+    submissionTimes.length - 1
+  );
+  const asOf = submissionTimes[index];
+  const asOfLevel = levelAsOf(level, asOf);
+  const asOfResult = levelPointsAsOf(level, asOf, profile);
+  const recordCount = asOfLevel.players.reduce(
+    (sum, player) => sum + player.records.length,
+    0
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>As of {new Date(asOf).toLocaleString()}</Label>
+        <Slider
+          value={[index]}
+          min={0}
+          max={Math.max(0, submissionTimes.length - 1)}
+          step={1}
+          onValueChange={(value) =>
+            setPosition(
+              value[0] === submissionTimes.length - 1 ? null : value[0]
+            )
+          }
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        {[
+          ["Points", asOfResult.points.toString()],
+          ["Players", asOfLevel.players.length.toString()],
+          ["Records", recordCount.toString()],
+        ].map(([label, value]) => (
+          <div key={label} className="p-2 border rounded-md bg-muted">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className="font-bold font-mono">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <LineChart data={timeline} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={formatDate}
+          />
+          <YAxis width={40} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) =>
+                  new Date(payload[0]?.payload.timestamp ?? 0).toLocaleString()
+                }
+              />
+            }
+          />
+          <ReferenceLine
+            x={asOf}
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="4 4"
+          />
+          <Line
+            dataKey="points"
+            type="stepAfter"
+            stroke="var(--color-points)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </LineChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        Points are recalculated with only the records submitted up to each
+        moment. The current rating is used throughout.
+      </p>
+    </div>
+  );
+}
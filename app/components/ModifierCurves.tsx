@@ -0,0 +1,94 @@
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceDot,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { CalculateLevelScore } from "../utils/calculateLevelPoints";
+import { modifierCurves } from "../utils/modifierCurves";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface ModifierCurvesProps {
+  input: CalculateLevelScore;
+  profile: ScoringProfile;
+}
+
+const chartConfig = {
+  modifier: {
+    label: "Modifier",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+// Format a curve value for axis ticks
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+export function ModifierCurves({ input, profile }: ModifierCurvesProps) {
+  const curves = modifierCurves(input, profile);
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {curves.map((curve) => (
+        <div key={curve.id} className="p-3 border rounded-md space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">{curve.label}</span>
+            <span className="font-mono text-muted-foreground">
+              {curve.current
+                ? `${formatValue(curve.current.input)} → ${curve.current.modifier.toFixed(3)}`
+                : "n/a"}
+            </span>
+          </div>
+          <ChartContainer config={chartConfig} className="aspect-[3/2] w-full">
+            <LineChart data={curve.points} margin={{ left: 0, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="input"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatValue}
+              />
+              <YAxis width={32} tickFormatter={formatValue} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      `${curve.inputLabel}: ${formatValue(payload[0]?.payload.input ?? 0)}`
+                    }
+                  />
+                }
+              />
+              <Line
+                dataKey="modifier"
+                type="monotone"
+                stroke="var(--color-modifier)"
+                strokeWidth={2}
+                dot={false}
+              />
+              {curve.current && (
+                <ReferenceDot
+                  x={curve.current.input}
+                  y={curve.current.modifier}
+                  r={5}
+                  fill="hsl(var(--chart-1))"
+                  stroke="none"
+                  ifOverflow="extendDomain"
+                />
+              )}
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground">{curve.inputLabel}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
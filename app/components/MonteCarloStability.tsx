@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import type { Level } from "../utils/level";
+import {
+  runMonteCarlo,
+  type MonteCarloModel,
+  type MonteCarloReport,
+} from "../utils/monteCarlo";
+import { rankPlayers } from "../utils/player";
+import { createSeededRandom } from "../utils/random";
+import type { ScoringProfile } from "../utils/scoringProfile";
+import { DEFAULT_LEADERBOARD_DISTRIBUTIONS } from "../utils/simulateLeaderboard";
+
+interface MonteCarloStabilityProps {
+  level: Level;
+  profile: ScoringProfile;
+  seed: number;
+}
+
+type ModelType = MonteCarloModel["type"];
+
+const MODEL_LABELS: Record<ModelType, string> = {
+  bootstrap: "Bootstrap (resample players)",
+  subsample: "Subsample (drop players)",
+  simulate: "Simulate (log-normal from current WR)",
+};
+
+const chartConfig = {
+  count: {
+    label: "Iterations",
+    color: "hsl(var(--chart-3))",
+  },
+} satisfies ChartConfig;
+
+export function MonteCarloStability({
+  level,
+  profile,
+  seed,
+}: MonteCarloStabilityProps) {
+  const [modelType, setModelType] = useState<ModelType>("bootstrap");
+  const [fraction, setFraction] = useState(0.8);
+  const [iterations, setIterations] = useState(500);
+  const [result, setResult] = useState<{
+    report: MonteCarloReport;
+    level: Level;
+    profile: ScoringProfile;
+  } | null>(null);
+
+  // A report only applies to the level and profile it was run for; changing either clears it
+  const report =
+    result && result.level === level && result.profile === profile
+      ? result.report
+      : null;
+
+  // Build the chosen model from the current level
+  const createModel = (): MonteCarloModel => {
+    if (modelType === "subsample") {
+      return { type: "subsample", fraction };
+    }
+
+    if (modelType === "simulate") {
+      const ranked = rankPlayers(level.players);
+      const totalTimes = level.players.reduce(
+        (sum, player) => sum + player.records.length,
+        0
+      );
+
+      return {
+        type: "simulate",
+        options: {
+          distribution: {
+            ...DEFAULT_LEADERBOARD_DISTRIBUTIONS.logNormal,
+            wrFloor: ranked[0]?.bestTime ?? 30,
+          },
+          playerCount: ranked.length,
+          attemptsPerPlayer: Math.max(
+            1,
+            Math.round(totalTimes / Math.max(1, ranked.length))
+          ),
+          attemptSpread: 0.05,
+          improvementRate: 0.2,
+        },
+      };
+    }
+
+    return { type: "bootstrap" };
+  };
+
+  const run = () => {
+    setResult({
+      report: runMonteCarlo(
+        level,
+        createModel(),
+        iterations,
+        createSeededRandom(seed),
+        profile
+      ),
+      level,
+      profile,
+    });
+  };
+
+  const histogramData = report?.histogram.map((bin) => ({
+    range: `${Math.round(bin.start)}–${Math.round(bin.end)}`,
+    count: bin.count,
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="monte-carlo-model">Model</Label>
+          <Select
+            value={modelType}
+            onValueChange={(value) => setModelType(value as ModelType)}
+          >
+            <SelectTrigger id="monte-carlo-model">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MODEL_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="monte-carlo-iterations">Iterations</Label>
+          <Input
+            id="monte-carlo-iterations"
+            type="number"
+            min={1}
+            max={10000}
+            value={iterations}
+            onChange={(e) =>
+              setIterations(
+                Math.min(10000, Math.max(1, Number.parseInt(e.target.value) || 1))
+              )
+            }
+          />
+        </div>
+      </div>
+
+      {modelType === "subsample" && (
+        <div className="space-y-2">
+          <Label>Players kept: {Math.round(fraction * 100)}%</Label>
+          <Slider
+            value={[fraction]}
+            min={0.1}
+            max={1}
+            step={0.05}
+            onValueChange={(value) => setFraction(value[0])}
+          />
+        </div>
+      )}
+
+      <Button onClick={run} className="w-full flex items-center gap-2">
+        <Play className="h-4 w-4" />
+        Run Monte Carlo
+      </Button>
+
+      {report && histogramData && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            {[
+              ["Mean", report.mean.toFixed(0)],
+              ["Std. dev.", report.standardDeviation.toFixed(1)],
+              ["CV", `${(report.coefficientOfVariation * 100).toFixed(1)}%`],
+              ["P5", report.percentiles.p5.toFixed(0)],
+              ["Median", report.percentiles.p50.toFixed(0)],
+              ["P95", report.percentiles.p95.toFixed(0)],
+              ["Min", report.min.toFixed(0)],
+              ["P25–P75", `${report.percentiles.p25.toFixed(0)}–${report.percentiles.p75.toFixed(0)}`],
+              ["Max", report.max.toFixed(0)],
+            ].map(([label, value]) => (
+              <div key={label} className="p-2 border rounded-md bg-muted">
+                <div className="text-xs text-muted-foreground">{label}</div>
+                <div className="font-bold font-mono">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+            <BarChart data={histogramData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="range" tick={{ fontSize: 10 }} />
+              <YAxis width={32} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" />
+            </BarChart>
+          </ChartContainer>
+        </>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Uses the seed from the random time settings, so a report can be
+        reproduced.
+      </p>
+    </div>
+  );
+}
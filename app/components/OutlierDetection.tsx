@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { calculateLevelPoints } from "../utils/calculateLevelPoints";
+import {
+  DEFAULT_OUTLIER_SETTINGS,
+  detectOutliers,
+  excludeRecords,
+  recordKey,
+  type OutlierSettings,
+} from "../utils/detectOutliers";
+import { formatTime } from "../utils/formatTime";
+import { getLevelScoreInput, type Level } from "../utils/level";
+import type { Player } from "../utils/player";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface OutlierDetectionProps {
+  level: Level;
+  profile: ScoringProfile;
+  onRemove: (players: Player[]) => void;
+}
+
+interface SettingFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+function SettingField({ id, label, value, step = 1, onChange }: SettingFieldProps) {
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) =>
+          onChange(Math.max(0, Number.parseFloat(e.target.value) || 0))
+        }
+      />
+    </div>
+  );
+}
+
+export function OutlierDetection({ level, profile, onRemove }: OutlierDetectionProps) {
+  const [settings, setSettings] = useState<OutlierSettings>(
+    DEFAULT_OUTLIER_SETTINGS
+  );
+  // Flagged records the user chose to keep; every other flagged record is excluded.
+  // Keys are record indexes, so they only hold for the players they were chosen on
+  const [kept, setKept] = useState<{ players: Player[]; keys: Set<string> }>({
+    players: level.players,
+    keys: new Set(),
+  });
+  const keptKeys =
+    kept.players === level.players ? kept.keys : new Set<string>();
+
+  const updateSettings = (changes: Partial<OutlierSettings>) => {
+    setSettings({ ...settings, ...changes });
+  };
+
+  const flagged = detectOutliers(level.players, settings);
+  const excluded = new Set(
+    flagged
+      .map((entry) => recordKey(entry.playerId, entry.recordIndex))
+      .filter((key) => !keptKeys.has(key))
+  );
+
+  // Toggle whether a flagged record is excluded
+  const toggleExcluded = (key: string, exclude: boolean) => {
+    const next = new Set(keptKeys);
+    if (exclude) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setKept({ players: level.players, keys: next });
+  };
+
+  const cleanedPlayers = excludeRecords(level.players, excluded);
+  const withAll = calculateLevelPoints(getLevelScoreInput(level), profile);
+  const withoutExcluded = calculateLevelPoints(
+    getLevelScoreInput({ players: cleanedPlayers, rating: level.rating }),
+    profile
+  );
+  const delta = withoutExcluded.points - withAll.points;
+
+  // Remove the excluded records from the level for good
+  const removeExcluded = () => {
+    onRemove(cleanedPlayers);
+    setKept({ players: cleanedPlayers, keys: new Set() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-4">
+        <SettingField
+          id="outlier-floor"
+          label="Time floor (s)"
+          value={settings.timeFloor}
+          step={0.1}
+          onChange={(timeFloor) => updateSettings({ timeFloor })}
+        />
+        <SettingField
+          id="outlier-top-gap"
+          label="Max top gap (%)"
+          value={Math.round(settings.maxTopGap * 100)}
+          onChange={(value) => updateSettings({ maxTopGap: value / 100 })}
+        />
+        <SettingField
+          id="outlier-pb-jump"
+          label="Max PB jump (%)"
+          value={Math.round(settings.maxPbJump * 100)}
+          onChange={(value) => updateSettings({ maxPbJump: value / 100 })}
+        />
+        <SettingField
+          id="outlier-duplicate-window"
+          label="Duplicate window (s)"
+          value={settings.duplicateWindow / 1000}
+          onChange={(value) => updateSettings({ duplicateWindow: value * 1000 })}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        {[
+          ["All records", withAll.points.toString()],
+          ["Without excluded", withoutExcluded.points.toString()],
+          ["Difference", delta > 0 ? `+${delta}` : delta.toString()],
+        ].map(([label, value]) => (
+          <div key={label} className="p-2 border rounded-md bg-muted">
+            <div className="text-xs text-muted-foreground">{label}</div>
+            <div className="font-bold font-mono">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {flagged.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No suspicious records found.
+        </p>
+      ) : (
+        <>
+          <div className="border rounded-md max-h-[40vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Exclude</TableHead>
+                  <TableHead>Player</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                  <TableHead>Reasons</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flagged.map((entry) => {
+                  const key = recordKey(entry.playerId, entry.recordIndex);
+
+                  return (
+                    <TableRow key={key}>
+                      <TableCell>
+                        <Checkbox
+                          checked={excluded.has(key)}
+                          onCheckedChange={(checked) =>
+                            toggleExcluded(key, checked === true)
+                          }
+                          aria-label={`Exclude ${entry.playerName}'s time`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {entry.playerName}
+                      </TableCell>
+                      <TableCell
+                        className="text-right font-mono"
+                        title={new Date(entry.record.submittedAt).toLocaleString()}
+                      >
+                        {formatTime(entry.record.time)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.reasons.map((reason) => reason.message).join("; ")}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Button
+            variant="destructive"
+            onClick={removeExcluded}
+            disabled={excluded.size === 0}
+            className="w-full flex items-center gap-2"
+          >
+            <ShieldAlert className="h-4 w-4" />
+            Remove {excluded.size} excluded record
+            {excluded.size === 1 ? "" : "s"} from the level
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DEFAULT_PAYOUT_CURVES,
+  calculatePlayerPayouts,
+  type PayoutCurve,
+  type PayoutCurveType,
+} from "../utils/calculatePlayerPayouts";
+import { formatTime } from "../utils/formatTime";
+import type { Player } from "../utils/player";
+
+interface PlayerPayoutTableProps {
+  players: Player[];
+  levelPoints: number;
+}
+
+export const CURVE_LABELS: Record<PayoutCurveType, string> = {
+  linear: "Linear",
+  exponential: "Exponential decay",
+  percentile: "Percentile tiers",
+};
+
+export function PlayerPayoutTable({
+  players,
+  levelPoints,
+}: PlayerPayoutTableProps) {
+  const [curve, setCurve] = useState<PayoutCurve>(DEFAULT_PAYOUT_CURVES.linear);
+
+  const payouts = calculatePlayerPayouts(players, levelPoints, curve);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="payout-curve">Payout curve</Label>
+        <Select
+          value={curve.type}
+          onValueChange={(type) =>
+            setCurve(DEFAULT_PAYOUT_CURVES[type as PayoutCurveType])
+          }
+        >
+          <SelectTrigger id="payout-curve">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CURVE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {curve.type === "exponential" && (
+        <div className="space-y-2">
+          <Label>Decay per rank: {curve.decay.toFixed(2)}</Label>
+          <Slider
+            value={[curve.decay]}
+            min={0.5}
+            max={0.99}
+            step={0.01}
+            onValueChange={(value) =>
+              setCurve({ type: "exponential", decay: value[0] })
+            }
+          />
+        </div>
+      )}
+
+      {payouts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No players with times yet.
+        </p>
+      ) : (
+        <div className="border rounded-md max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rank</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Best Time</TableHead>
+                <TableHead className="text-right">Gap to WR</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payouts.map((payout) => (
+                <TableRow key={payout.playerId}>
+                  <TableCell>{payout.rank}</TableCell>
+                  <TableCell className="font-medium">{payout.name}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatTime(payout.bestTime)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    +{payout.gapToWr.toFixed(3)}s
+                  </TableCell>
+                  <TableCell className="text-right font-bold">
+                    {payout.points}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DEFAULT_PAYOUT_CURVES,
+  type PayoutCurveType,
+} from "../utils/calculatePlayerPayouts";
+import { getLevelScoreInput, type Level } from "../utils/level";
+import type { ScoringProfile } from "../utils/scoringProfile";
+import {
+  DEFAULT_SEASON_RULES,
+  SEASON_TIE_BREAKERS,
+  calculateSeasonStandings,
+  seasonTieBreakerLabel,
+  type SeasonRules,
+  type SeasonTieBreaker,
+} from "../utils/season";
+import { validateLevelScore } from "../utils/validateLevelScore";
+import { CURVE_LABELS } from "./PlayerPayoutTable";
+
+interface SeasonStandingsProps {
+  levels: Level[];
+  profile: ScoringProfile;
+}
+
+export function SeasonStandings({ levels, profile }: SeasonStandingsProps) {
+  const [rules, setRules] = useState<SeasonRules>(DEFAULT_SEASON_RULES);
+  const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
+
+  const updateRules = (changes: Partial<SeasonRules>) => {
+    setRules({ ...rules, ...changes });
+  };
+
+  // Move the chosen tie-breaker to the front, keeping the others in their default order
+  const setFirstTieBreaker = (tieBreaker: SeasonTieBreaker) => {
+    updateRules({
+      tieBreakers: [
+        tieBreaker,
+        ...SEASON_TIE_BREAKERS.filter((other) => other !== tieBreaker),
+      ],
+    });
+  };
+
+  // Levels with input errors would pay out meaningless points, so they sit out the season
+  const validLevels = levels.filter(
+    (level) => validateLevelScore(getLevelScoreInput(level), profile).success
+  );
+  const skippedLevels = levels.length - validLevels.length;
+
+  const standings = calculateSeasonStandings(validLevels, rules, profile);
+  const selected = standings.find(
+    (standing) => standing.playerName === selectedPlayer
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="season-curve">Payout curve</Label>
+          <Select
+            value={rules.curve.type}
+            onValueChange={(type) =>
+              updateRules({
+                curve: DEFAULT_PAYOUT_CURVES[type as PayoutCurveType],
+              })
+            }
+          >
+            <SelectTrigger id="season-curve">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CURVE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="season-best-n">Best N levels (0 = all)</Label>
+          <Input
+            id="season-best-n"
+            type="number"
+            min={0}
+            step={1}
+            value={rules.bestN ?? 0}
+            onChange={(e) => {
+              const bestN = Math.max(0, Number.parseInt(e.target.value) || 0);
+              updateRules({ bestN: bestN === 0 ? null : bestN });
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="season-tie-breaker">First tie-breaker</Label>
+          <Select
+            value={rules.tieBreakers[0]}
+            onValueChange={(tieBreaker) =>
+              setFirstTieBreaker(tieBreaker as SeasonTieBreaker)
+            }
+          >
+            <SelectTrigger id="season-tie-breaker">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEASON_TIE_BREAKERS.map((tieBreaker) => (
+                <SelectItem key={tieBreaker} value={tieBreaker}>
+                  {seasonTieBreakerLabel(tieBreaker)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {skippedLevels > 0 && (
+        <p className="text-sm text-red-500">
+          {skippedLevels} level{skippedLevels === 1 ? " has" : "s have"} input
+          errors and {skippedLevels === 1 ? "is" : "are"} left out of the
+          standings.
+        </p>
+      )}
+
+      {standings.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No players with times yet.
+        </p>
+      ) : (
+        <>
+          <div className="border rounded-md max-h-[40vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rank</TableHead>
+                  <TableHead>Player</TableHead>
+                  <TableHead className="text-right">Levels</TableHead>
+                  <TableHead className="text-right">Wins</TableHead>
+                  <TableHead className="text-right">Avg. Rank</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {standings.map((standing) => (
+                  <TableRow
+                    key={standing.playerName}
+                    className="cursor-pointer"
+                    data-state={
+                      standing.playerName === selectedPlayer
+                        ? "selected"
+                        : undefined
+                    }
+                    onClick={() => setSelectedPlayer(standing.playerName)}
+                  >
+                    <TableCell>{standing.rank}</TableCell>
+                    <TableCell className="font-medium">
+                      {standing.playerName}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {standing.levelsPlayed}
+                    </TableCell>
+                    <TableCell className="text-right">{standing.wins}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {standing.averageRank.toFixed(1)}
+                    </TableCell>
+                    <TableCell className="text-right font-bold">
+                      {standing.total}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Players are matched across levels by name. Equal totals are ordered
+            by{" "}
+            {rules.tieBreakers
+              .map((tieBreaker) => seasonTieBreakerLabel(tieBreaker).toLowerCase())
+              .join(", then ")}
+            . Select a player to see where their points came from.
+          </p>
+
+          {selected && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {selected.playerName}: {selected.total} points
+              </h4>
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Level</TableHead>
+                      <TableHead className="text-right">Rank</TableHead>
+                      <TableHead className="text-right">Level Points</TableHead>
+                      <TableHead className="text-right">Points</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.results.map((result) => (
+                      <TableRow
+                        key={result.levelId}
+                        className={
+                          result.counted ? undefined : "text-muted-foreground"
+                        }
+                      >
+                        <TableCell className="font-medium">
+                          {result.levelName}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {result.rank}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {result.levelPoints}
+                        </TableCell>
+                        <TableCell className="text-right font-bold">
+                          {result.counted ? result.points : `(${result.points})`}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {selected.results.some((result) => !result.counted) && (
+                <p className="text-xs text-muted-foreground">
+                  Points in brackets fall outside the best {rules.bestN} and
+                  don&apos;t count towards the total.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
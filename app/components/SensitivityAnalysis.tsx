@@ -0,0 +1,154 @@
+import { useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CalculateLevelScore } from "../utils/calculateLevelPoints";
+import { analyseAllSensitivities } from "../utils/sensitivityAnalysis";
+import type { ScoringProfile } from "../utils/scoringProfile";
+
+interface SensitivityAnalysisProps {
+  input: CalculateLevelScore;
+  profile: ScoringProfile;
+}
+
+const chartConfig = {
+  points: {
+    label: "Points",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig;
+
+// Format an input value for axis ticks and tables
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+export function SensitivityAnalysis({ input, profile }: SensitivityAnalysisProps) {
+  const [selectedLabel, setSelectedLabel] = useState("WR time");
+
+  const sensitivities = analyseAllSensitivities(input, profile);
+  const selected =
+    sensitivities.find((sensitivity) => sensitivity.label === selectedLabel) ??
+    sensitivities[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="sensitivity-variable">Input</Label>
+        <Select value={selected.label} onValueChange={setSelectedLabel}>
+          <SelectTrigger id="sensitivity-variable">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sensitivities.map((sensitivity) => (
+              <SelectItem key={sensitivity.label} value={sensitivity.label}>
+                {sensitivity.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <LineChart data={selected.curve} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="value"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={formatValue}
+          />
+          <YAxis width={40} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) =>
+                  `${selected.label}: ${formatValue(payload[0]?.payload.value ?? 0)}`
+                }
+              />
+            }
+          />
+          <ReferenceLine
+            x={selected.baseline}
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="4 4"
+          />
+          <Line
+            dataKey="points"
+            type="linear"
+            stroke="var(--color-points)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </LineChart>
+      </ChartContainer>
+
+      <div className="border rounded-md max-h-[40vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Input</TableHead>
+              <TableHead className="text-right">Current</TableHead>
+              <TableHead className="text-right">∂Points/∂Input</TableHead>
+              <TableHead className="text-right">Elasticity</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sensitivities.map((sensitivity) => (
+              <TableRow
+                key={sensitivity.label}
+                className="cursor-pointer"
+                data-state={
+                  sensitivity.label === selected.label ? "selected" : undefined
+                }
+                onClick={() => setSelectedLabel(sensitivity.label)}
+              >
+                <TableCell className="font-medium">{sensitivity.label}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatValue(sensitivity.baseline)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {sensitivity.derivative.toFixed(3)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {sensitivity.elasticity.toFixed(3)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Elasticity is the % change in points for a 1% change of the input. The
+        dashed line marks the current value.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Link } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  LONG_SCENARIO_URL_LENGTH,
+  createScenarioUrl,
+} from "../utils/shareScenario";
+import type { TrackerState } from "../utils/trackerState";
+
+interface ShareScenarioProps {
+  state: TrackerState;
+}
+
+export function ShareScenario({ state }: ShareScenarioProps) {
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Build a link for the current scenario and try to put it on the clipboard
+  const handleShare = async () => {
+    const url = await createScenarioUrl(
+      state,
+      window.location.origin + window.location.pathname
+    );
+    setShareUrl(url);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="secondary"
+        onClick={handleShare}
+        className="w-full flex items-center gap-2"
+      >
+        <Link className="h-4 w-4" />
+        Share Scenario Link
+      </Button>
+      {shareUrl && (
+        <>
+          <Input
+            readOnly
+            value={shareUrl}
+            onFocus={(e) => e.target.select()}
+            aria-label="Scenario link"
+          />
+          <p className="text-xs text-muted-foreground">
+            {copied
+              ? `Copied to the clipboard (${shareUrl.length} characters).`
+              : "Copy the link above to share this scenario."}{" "}
+            The link contains the active level and the scoring settings.
+          </p>
+          {shareUrl.length > LONG_SCENARIO_URL_LENGTH && (
+            <Alert>
+              <AlertTitle>Long link</AlertTitle>
+              <AlertDescription>
+                Some apps cut off or reject links this long. If it doesn&apos;t
+                open, share the level&apos;s JSON export instead.
+              </AlertDescription>
+            </Alert>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Copy, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { TrackerState } from "../utils/trackerState";
+import {
+  deleteSnapshot,
+  duplicateSnapshot,
+  listSnapshots,
+  loadSnapshot,
+  renameSnapshot,
+  saveSnapshot,
+  type TrackerSnapshot,
+} from "../utils/trackerStorage";
+
+interface SnapshotManagerProps {
+  state: TrackerState;
+  onLoad: (state: TrackerState) => void;
+}
+
+export function SnapshotManager({ state, onLoad }: SnapshotManagerProps) {
+  const [snapshots, setSnapshots] = useState<TrackerSnapshot[]>([]);
+  const [newSnapshotName, setNewSnapshotName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Snapshots live in localStorage, which is only available in the browser
+  useEffect(() => {
+    setSnapshots(listSnapshots());
+  }, []);
+
+  // Reload the list, reporting when the last change couldn't be stored
+  const refresh = (saved = true) => {
+    setSnapshots(listSnapshots());
+    setError(
+      saved
+        ? null
+        : "Couldn't save the change, the browser's storage is full or blocked."
+    );
+  };
+
+  const handleSave = () => {
+    if (newSnapshotName.trim() === "") return;
+
+    const saved = saveSnapshot(newSnapshotName.trim(), state) !== null;
+    if (saved) {
+      setNewSnapshotName("");
+    }
+    refresh(saved);
+  };
+
+  const handleLoad = (snapshot: TrackerSnapshot) => {
+    const loaded = loadSnapshot(snapshot.id);
+    if (!loaded) {
+      setError(`"${snapshot.name}" was saved by an incompatible version and can't be loaded.`);
+      return;
+    }
+
+    onLoad(loaded);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={newSnapshotName}
+          onChange={(e) => setNewSnapshotName(e.target.value)}
+          placeholder="Snapshot name"
+        />
+        <Button onClick={handleSave} className="flex items-center gap-2">
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No snapshots saved yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-60 overflow-y-auto pr-1">
+          {snapshots.map((snapshot) => (
+            <li
+              key={snapshot.id}
+              className="p-2 border rounded-md flex items-center gap-2"
+            >
+              <Input
+                defaultValue={snapshot.name}
+                className="h-8"
+                aria-label="Snapshot name"
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name !== "" && name !== snapshot.name) {
+                    refresh(renameSnapshot(snapshot.id, name));
+                  }
+                }}
+              />
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {new Date(snapshot.updatedAt).toLocaleString()}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleLoad(snapshot)}
+                title="Load snapshot"
+              >
+                <Upload className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => {
+                  refresh(duplicateSnapshot(snapshot.id) !== null);
+                }}
+                title="Duplicate snapshot"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-red-500 hover:text-red-700 hover:bg-red-100"
+                onClick={() => {
+                  refresh(deleteSnapshot(snapshot.id));
+                }}
+                title="Delete snapshot"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatTime } from "../utils/formatTime";
+import type { Player } from "../utils/player";
+import type { ScoringProfile } from "../utils/scoringProfile";
+import { timeDistribution } from "../utils/timeDistribution";
+
+interface TimeDistributionChartsProps {
+  players: Player[];
+  profile: ScoringProfile;
+}
+
+const chartConfig = {
+  count: {
+    label: "Players",
+    color: "hsl(var(--chart-1))",
+  },
+  share: {
+    label: "Share of players",
+    color: "hsl(var(--chart-2))",
+  },
+  gap: {
+    label: "Gap to WR (s)",
+    color: "hsl(var(--chart-3))",
+  },
+  time: {
+    label: "Time",
+    color: "hsl(var(--chart-5))",
+  },
+} satisfies ChartConfig;
+
+export function TimeDistributionCharts({
+  players,
+  profile,
+}: TimeDistributionChartsProps) {
+  const distribution = timeDistribution(players, profile);
+
+  const histogramData = distribution.histogram.map((bin) => ({
+    range: `${bin.start.toFixed(1)}–${bin.end.toFixed(1)}`,
+    count: bin.count,
+  }));
+
+  const averagesData = distribution.averages && [
+    { label: "WR", time: distribution.averages.wrTime },
+    { label: "Top 10 avg.", time: distribution.averages.avgTop10 },
+    { label: "Top 50 avg.", time: distribution.averages.avgTop50 },
+  ];
+
+  return (
+    <Tabs defaultValue="histogram">
+      <TabsList className="grid w-full grid-cols-4">
+        <TabsTrigger value="histogram">Histogram</TabsTrigger>
+        <TabsTrigger value="cumulative">Cumulative</TabsTrigger>
+        <TabsTrigger value="gap">Gap to WR</TabsTrigger>
+        <TabsTrigger value="averages">Averages</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="histogram">
+        <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+          <BarChart data={histogramData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="range" tick={{ fontSize: 10 }} />
+            <YAxis width={32} allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="count" fill="var(--color-count)" />
+          </BarChart>
+        </ChartContainer>
+        <p className="text-xs text-muted-foreground">
+          Number of players per range of best times, in seconds.
+        </p>
+      </TabsContent>
+
+      <TabsContent value="cumulative">
+        <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+          <LineChart data={distribution.cumulative} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value) => value.toFixed(1)}
+            />
+            <YAxis
+              width={40}
+              domain={[0, 1]}
+              tickFormatter={(value) => `${Math.round(value * 100)}%`}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) =>
+                    formatTime(payload[0]?.payload.time ?? 0)
+                  }
+                />
+              }
+            />
+            <Line
+              dataKey="share"
+              type="stepAfter"
+              stroke="var(--color-share)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+        <p className="text-xs text-muted-foreground">
+          Share of players with a best time at or below each time.
+        </p>
+      </TabsContent>
+
+      <TabsContent value="gap">
+        <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+          <LineChart data={distribution.gapToWr} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="rank" type="number" domain={[1, "dataMax"]} />
+            <YAxis width={40} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) =>
+                    `Rank ${payload[0]?.payload.rank ?? ""}`
+                  }
+                />
+              }
+            />
+            {[10, 50].map((rank) => (
+              <ReferenceLine
+                key={rank}
+                x={rank}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 4"
+              />
+            ))}
+            <Line
+              dataKey="gap"
+              type="linear"
+              stroke="var(--color-gap)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+        <p className="text-xs text-muted-foreground">
+          Seconds behind the WR by rank. The dashed lines mark the top 10 and
+          top 50.
+        </p>
+      </TabsContent>
+
+      <TabsContent value="averages">
+        {averagesData && distribution.averages ? (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+              <BarChart data={averagesData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" />
+                <YAxis width={40} domain={["dataMin - 1", "dataMax + 1"]} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="time" fill="var(--color-time)" />
+              </BarChart>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground">
+              Spread score: (top 50 avg. − top 10 avg.) / top 50 avg. ={" "}
+              <span className="font-mono">
+                {distribution.averages.spreadScore.toFixed(4)}
+              </span>
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            The competitiveness factor needs more than {profile.minimumPbs}{" "}
+            players with a time.
+          </p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
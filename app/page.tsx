@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,34 +11,185 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { PlusCircle, Clock, User, Trophy, Sparkles, Zap } from "lucide-react";
+import {
+  PlusCircle,
+  Clock,
+  User,
+  Trophy,
+  Sparkles,
+  Zap,
+  Dices,
+} from "lucide-react";
 import { Slider } from "@/components/ui/slider";
-import { calculateLevelPoints } from "./utils/calculateLevelPoints";
-
-interface Player {
-  id: string;
-  name: string;
-  times: number[];
-}
-
-// Format time as mm:ss:iiii
-function formatTime(timeInSeconds: number): string {
-  const minutes = Math.floor(timeInSeconds / 60);
-  const seconds = Math.floor(timeInSeconds % 60);
-  const milliseconds = Math.floor((timeInSeconds % 1) * 1000);
-
-  return `${minutes.toString().padStart(2, "0")}:${seconds
-    .toString()
-    .padStart(2, "0")}:${milliseconds.toString().padStart(3, "0")}`;
-}
+import { Switch } from "@/components/ui/switch";
+import { explainLevelPoints } from "./utils/explainLevelPoints";
+import { formatTime } from "./utils/formatTime";
+import { createLevel, getLevelScoreInput, type Level } from "./utils/level";
+import { playerBestTime, type Player, type PlayerRecord } from "./utils/player";
+import {
+  drawFromStream,
+  randomSeed,
+  type RandomSource,
+  type RandomStream,
+} from "./utils/random";
+import {
+  simulateLeaderboard,
+  type LeaderboardSimulationOptions,
+} from "./utils/simulateLeaderboard";
+import {
+  DEFAULT_SCORING_PROFILE,
+  createScoringProfile,
+  type ScoringProfile,
+} from "./utils/scoringProfile";
+import type { TrackerState } from "./utils/trackerState";
+import { validateLevelScore } from "./utils/validateLevelScore";
+import { loadTrackerState, saveTrackerState } from "./utils/trackerStorage";
+import { decodeScenario, readScenarioParam } from "./utils/shareScenario";
+import { LevelPointsTrace } from "./components/LevelPointsTrace";
+import { FormulaComparison } from "./components/FormulaComparison";
+import { PlayerPayoutTable } from "./components/PlayerPayoutTable";
+import { LeaderboardImport } from "./components/LeaderboardImport";
+import { LevelSwitcher } from "./components/LevelSwitcher";
+import { LevelSummaryTable } from "./components/LevelSummaryTable";
+import { LevelRatingPanel } from "./components/LevelRatingPanel";
+import { SensitivityAnalysis } from "./components/SensitivityAnalysis";
+import { ModifierCurves } from "./components/ModifierCurves";
+import { SnapshotManager } from "./components/SnapshotManager";
+import { ShareScenario } from "./components/ShareScenario";
+import { ExportPanel } from "./components/ExportPanel";
+import { LeaderboardSimulation } from "./components/LeaderboardSimulation";
+import { MonteCarloStability } from "./components/MonteCarloStability";
+import { LevelScoreIssues } from "./components/LevelScoreIssues";
+import { GoalSeek } from "./components/GoalSeek";
+import { LevelTimeline } from "./components/LevelTimeline";
+import { TimeDistributionCharts } from "./components/TimeDistributionCharts";
+import { OutlierDetection } from "./components/OutlierDetection";
+import { SeasonStandings } from "./components/SeasonStandings";
 
 export default function PlayerTimeTracker() {
-  const [players, setPlayers] = useState<Player[]>([]);
+  const [levels, setLevels] = useState<Level[]>(() => [createLevel("Level 1")]);
+  const [activeLevelId, setActiveLevelId] = useState(levels[0].id);
   const [newPlayerName, setNewPlayerName] = useState("");
   const [calculationFormula, setCalculationFormula] = useState("");
   const [calculatedPoints, setCalculatedPoints] = useState<number | null>(null);
   const [minRandomTime, setMinRandomTime] = useState(30);
   const [maxRandomTime, setMaxRandomTime] = useState(90);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(
+    DEFAULT_SCORING_PROFILE
+  );
+  const [showTrace, setShowTrace] = useState(false);
+  const [hasLoadedState, setHasLoadedState] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [randomStream, setRandomStream] = useState<RandomStream>({
+    seed: 1,
+    position: 0,
+  });
+
+  const activeLevel =
+    levels.find((level) => level.id === activeLevelId) ?? levels[0];
+  const players = activeLevel.players;
+
+  const trackerState: TrackerState = {
+    levels,
+    activeLevelId: activeLevel.id,
+    scoringProfile,
+    randomTimeRange: { min: minRandomTime, max: maxRandomTime },
+    random: randomStream,
+  };
+
+  // Replace the whole tracker state, e.g. when loading a snapshot
+  const applyTrackerState = (state: TrackerState) => {
+    setLevels(state.levels);
+    setActiveLevelId(state.activeLevelId);
+    setScoringProfile(state.scoringProfile);
+    setMinRandomTime(state.randomTimeRange.min);
+    setMaxRandomTime(state.randomTimeRange.max);
+    setRandomStream(state.random);
+  };
+
+  // Restore the last state and open a shared scenario after the first render,
+  // neither localStorage nor the URL is available on the server
+  useEffect(() => {
+    const restoreState = async () => {
+      const savedState = loadTrackerState();
+      const sharedScenario = readScenarioParam(window.location);
+      const scenario = sharedScenario
+        ? await decodeScenario(sharedScenario)
+        : null;
+
+      if (scenario) {
+        // Add the shared level to the workspace instead of replacing it
+        const sharedLevel = { ...scenario.levels[0], id: Date.now().toString() };
+        applyTrackerState({
+          ...scenario,
+          levels: [...(savedState?.levels ?? []), sharedLevel],
+          activeLevelId: sharedLevel.id,
+        });
+        window.history.replaceState(null, "", window.location.pathname);
+      } else if (savedState) {
+        applyTrackerState(savedState);
+      }
+      setHasLoadedState(true);
+    };
+
+    restoreState();
+
+    // Opening a link in a tab that already shows the tracker only changes the fragment,
+    // reload so the scenario is added like on a fresh visit
+    const openSharedScenario = () => {
+      if (readScenarioParam(window.location)) {
+        window.location.reload();
+      }
+    };
+
+    window.addEventListener("hashchange", openSharedScenario);
+    return () => window.removeEventListener("hashchange", openSharedScenario);
+  }, []);
+
+  // Save every change, but never before the saved state has been restored
+  useEffect(() => {
+    if (hasLoadedState) {
+      setSaveFailed(!saveTrackerState(trackerState));
+    }
+  }, [hasLoadedState, levels, activeLevelId, scoringProfile, minRandomTime, maxRandomTime, randomStream]);
+
+  // Update the active level
+  const updateActiveLevel = (changes: Partial<Omit<Level, "id">>) => {
+    setLevels(
+      levels.map((level) =>
+        level.id === activeLevel.id ? { ...level, ...changes } : level
+      )
+    );
+  };
+
+  // Replace the players of the active level
+  const setPlayers = (players: Player[]) => {
+    updateActiveLevel({ players });
+  };
+
+  // Add an empty level and switch to it
+  const addLevel = () => {
+    const newLevel = createLevel(`Level ${levels.length + 1}`);
+
+    setLevels([...levels, newLevel]);
+    setActiveLevelId(newLevel.id);
+  };
+
+  // Remove a level, keeping at least one level in the workspace
+  const removeLevel = (levelId: string) => {
+    if (levels.length <= 1) return;
+
+    const remainingLevels = levels.filter((level) => level.id !== levelId);
+    setLevels(remainingLevels);
+    if (levelId === activeLevel.id) {
+      setActiveLevelId(remainingLevels[0].id);
+    }
+  };
+
+  // Update the rating settings of the scoring profile
+  const updateRatingSettings = (rating: Partial<ScoringProfile["rating"]>) => {
+    setScoringProfile(createScoringProfile({ rating }, scoringProfile));
+  };
 
   // Add a new player
   const addPlayer = () => {
@@ -47,61 +198,92 @@ export default function PlayerTimeTracker() {
     const newPlayer: Player = {
       id: Date.now().toString(),
       name: newPlayerName,
-      times: [],
+      records: [],
     };
 
     setPlayers([...players, newPlayer]);
     setNewPlayerName("");
   };
 
+  // Draw from the seeded random source and remember where it stopped,
+  // all random values of a single action must come from one draw
+  const drawRandom = <T,>(draw: (random: RandomSource) => T): T => {
+    const { value, stream } = drawFromStream(randomStream, draw);
+    setRandomStream(stream);
+    return value;
+  };
+
+  // Start over from a new seed
+  const setSeed = (seed: number) => {
+    setRandomStream({ seed, position: 0 });
+  };
+
   // Generate a random time between min and max
-  const generateRandomTime = (): number => {
-    return minRandomTime + Math.random() * (maxRandomTime - minRandomTime);
+  const generateRandomTime = (random: RandomSource): number => {
+    return minRandomTime + random() * (maxRandomTime - minRandomTime);
   };
 
-  // Generate an array of random times
-  const generateRandomTimes = (count: number): number[] => {
-    return Array.from({ length: count }, generateRandomTime);
+  // Generate an array of random times, all submitted right now
+  const generateRandomTimes = (
+    random: RandomSource,
+    count: number
+  ): PlayerRecord[] => {
+    const submittedAt = Date.now();
+    return Array.from({ length: count }, () => ({
+      time: generateRandomTime(random),
+      submittedAt,
+    }));
   };
 
   // Add a player with random times
   const addPlayerWithRandomTimes = () => {
     const randomName = `Player ${players.length + 1}`;
-    const randomTimes = generateRandomTimes(10);
+    const randomTimes = drawRandom((random) => generateRandomTimes(random, 10));
 
     const newPlayer: Player = {
       id: Date.now().toString(),
       name: randomName,
-      times: randomTimes,
+      records: randomTimes,
     };
 
     setPlayers([...players, newPlayer]);
   };
 
   const addTenPlayerWithRandomTimes = () => {
-    const newPlayers = [];
-    for (let i = 0; i < 10; i++) {
-      const randomName = `Player ${players.length + 1 + i}`;
-      const randomTimes = generateRandomTimes(10);
-
-      const newPlayer: Player = {
-        id: Date.now().toString() + i,
-        name: randomName,
-        times: randomTimes,
-      };
-      newPlayers.push(newPlayer);
-    }
+    const newPlayers = drawRandom((random) => {
+      const generatedPlayers = [];
+      for (let i = 0; i < 10; i++) {
+        const randomName = `Player ${players.length + 1 + i}`;
+        const randomTimes = generateRandomTimes(random, 10);
+
+        const newPlayer: Player = {
+          id: Date.now().toString() + i,
+          name: randomName,
+          records: randomTimes,
+        };
+        generatedPlayers.push(newPlayer);
+      }
+      return generatedPlayers;
+    });
     setPlayers([...players, ...newPlayers]);
   };
 
+  // Replace the players with a simulated leaderboard
+  const generateLeaderboard = (options: LeaderboardSimulationOptions) => {
+    setPlayers(
+      drawRandom((random) => simulateLeaderboard(options, random, Date.now()))
+    );
+  };
+
   // Add random times to a player
   const addRandomTimesToPlayer = (playerId: string, count = 10) => {
+    const randomTimes = drawRandom((random) => generateRandomTimes(random, count));
     setPlayers(
       players.map((player) => {
         if (player.id === playerId) {
           return {
             ...player,
-            times: [...player.times, ...generateRandomTimes(count)],
+            records: [...player.records, ...randomTimes],
           };
         }
         return player;
@@ -116,7 +298,7 @@ export default function PlayerTimeTracker() {
         if (player.id === playerId) {
           return {
             ...player,
-            times: [...player.times, time],
+            records: [...player.records, { time, submittedAt: Date.now() }],
           };
         }
         return player;
@@ -128,11 +310,14 @@ export default function PlayerTimeTracker() {
   const addTimeBasedOnLast = (playerId: string, amount: number) => {
     setPlayers(
       players.map((player) => {
-        if (player.id === playerId && player.times.length > 0) {
-          const lastTime = player.times[player.times.length - 1];
+        if (player.id === playerId && player.records.length > 0) {
+          const lastTime = player.records[player.records.length - 1].time;
           return {
             ...player,
-            times: [...player.times, lastTime + amount],
+            records: [
+              ...player.records,
+              { time: lastTime + amount, submittedAt: Date.now() },
+            ],
           };
         }
         return player;
@@ -147,7 +332,7 @@ export default function PlayerTimeTracker() {
         if (player.id === playerId) {
           return {
             ...player,
-            times: player.times.filter((_, index) => index !== timeIndex),
+            records: player.records.filter((_, index) => index !== timeIndex),
           };
         }
         return player;
@@ -171,37 +356,17 @@ export default function PlayerTimeTracker() {
 
   // Get total count of players with at least one time (best times count)
   const getTotalBestTimesCount = () => {
-    return players.filter((player) => player.times.length > 0).length;
+    return players.filter((player) => player.records.length > 0).length;
   };
 
   // Get total count of all times across all players
   const getTotalTimesCount = () => {
-    return players.reduce((sum, player) => sum + player.times.length, 0);
+    return players.reduce((sum, player) => sum + player.records.length, 0);
   };
 
-  const getTopTimes = () => {
-    let top50Players = players
-      .filter((player) => player.times.length > 0)
-      .map((player) => ({
-        ...player,
-        bestTime: Math.min(...player.times), // Get the best (lowest) time for each player
-      }))
-      .sort((a, b) => a.bestTime - b.bestTime) // Sort players by best time in ascending order
-      .slice(0, 50);
-
-    return top50Players.map((p) => p.bestTime);
-  };
-
-  const getTotalPersonalBests = () => {
-    let p = players
-      .filter((player) => player.times.length > 0)
-      .map((player) => ({
-        ...player,
-        bestTime: Math.min(...player.times),
-      }));
-
-    return p.length;
-  };
+  const levelInput = getLevelScoreInput(activeLevel);
+  const levelResult = explainLevelPoints(levelInput, scoringProfile);
+  const levelValidation = validateLevelScore(levelInput, scoringProfile);
 
   return (
     <div className="container mx-auto py-8 px-4">
@@ -214,6 +379,101 @@ export default function PlayerTimeTracker() {
         <div className="space-y-6">
           <h2 className="text-2xl font-bold">Players</h2>
 
+          {/* Snapshots */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Snapshots</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {saveFailed && (
+                  <p className="text-sm text-red-500">
+                    Couldn&apos;t save your changes in this browser, its storage
+                    is full or blocked. Export your levels to keep them.
+                  </p>
+                )}
+                <SnapshotManager
+                  state={trackerState}
+                  onLoad={applyTrackerState}
+                />
+                <ShareScenario state={trackerState} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Level Settings */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Level</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <LevelSwitcher
+                  levels={levels}
+                  activeLevelId={activeLevel.id}
+                  onSelectLevel={setActiveLevelId}
+                  onAddLevel={addLevel}
+                  onRemoveLevel={removeLevel}
+                />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="level-name">Name</Label>
+                    <Input
+                      id="level-name"
+                      value={activeLevel.name}
+                      onChange={(e) => updateActiveLevel({ name: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="level-workshop-id">Workshop ID</Label>
+                    <Input
+                      id="level-workshop-id"
+                      value={activeLevel.metadata.workshopId ?? ""}
+                      onChange={(e) =>
+                        updateActiveLevel({
+                          metadata: {
+                            ...activeLevel.metadata,
+                            workshopId: e.target.value || undefined,
+                          },
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="level-author">Author</Label>
+                    <Input
+                      id="level-author"
+                      value={activeLevel.metadata.author ?? ""}
+                      onChange={(e) =>
+                        updateActiveLevel({
+                          metadata: {
+                            ...activeLevel.metadata,
+                            author: e.target.value || undefined,
+                          },
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Level Rating */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Level Rating</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LevelRatingPanel
+                rating={activeLevel.rating}
+                votes={activeLevel.votes}
+                profile={scoringProfile}
+                onChange={updateActiveLevel}
+              />
+            </CardContent>
+          </Card>
+
           {/* Random Time Settings */}
           <Card>
             <CardHeader className="pb-3">
@@ -221,6 +481,32 @@ export default function PlayerTimeTracker() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Label htmlFor="random-seed">Seed</Label>
+                    <Input
+                      id="random-seed"
+                      type="number"
+                      value={randomStream.seed}
+                      onChange={(e) =>
+                        setSeed(Number.parseInt(e.target.value) || 0)
+                      }
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setSeed(randomSeed())}
+                    title="Random seed"
+                  >
+                    <Dices className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {randomStream.position} numbers drawn from this seed. Changing
+                  the seed starts over, so the same steps always generate the
+                  same times.
+                </p>
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <Label>Minimum Time (seconds): {minRandomTime}</Label>
@@ -255,6 +541,16 @@ export default function PlayerTimeTracker() {
             </CardContent>
           </Card>
 
+          {/* Leaderboard Simulation */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Leaderboard Simulation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LeaderboardSimulation onGenerate={generateLeaderboard} />
+            </CardContent>
+          </Card>
+
           {/* Add Player Form */}
           <div className="flex flex-col gap-4">
             <div className="flex flex-col sm:flex-row gap-4 items-end">
@@ -288,6 +584,25 @@ export default function PlayerTimeTracker() {
               <Sparkles className="h-4 w-4" />
               Add 10 Players with 10 Random Times
             </Button>
+            <LeaderboardImport
+              profile={scoringProfile}
+              onApplyProfile={setScoringProfile}
+              onImport={(importedPlayers, importedLevel) => {
+                updateActiveLevel({
+                  name: importedLevel.name ?? activeLevel.name,
+                  players: importedPlayers,
+                  rating: importedLevel.rating ?? activeLevel.rating,
+                  metadata: {
+                    ...activeLevel.metadata,
+                    levelId: importedLevel.id ?? activeLevel.metadata.levelId,
+                    workshopId:
+                      importedLevel.workshopId ??
+                      activeLevel.metadata.workshopId,
+                    author: importedLevel.author ?? activeLevel.metadata.author,
+                  },
+                });
+              }}
+            />
           </div>
 
           {/* Players List */}
@@ -319,6 +634,67 @@ export default function PlayerTimeTracker() {
             Points Calculation
           </h2>
 
+          {/* Map Pool Summary */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Map Pool</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LevelSummaryTable
+                levels={levels}
+                activeLevelId={activeLevel.id}
+                profile={scoringProfile}
+                onSelectLevel={setActiveLevelId}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Season Standings */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Season Standings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SeasonStandings levels={levels} profile={scoringProfile} />
+            </CardContent>
+          </Card>
+
+          {/* Scoring Settings */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-md">Scoring Settings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="rating-enabled">Apply rating modifier</Label>
+                  <Switch
+                    id="rating-enabled"
+                    checked={scoringProfile.rating.enabled}
+                    onCheckedChange={(enabled) =>
+                      updateRatingSettings({ enabled })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>
+                    Rating weight: {scoringProfile.rating.weight.toFixed(2)}
+                  </Label>
+                  <Slider
+                    value={[scoringProfile.rating.weight]}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    disabled={!scoringProfile.rating.enabled}
+                    onValueChange={(value) =>
+                      updateRatingSettings({ weight: value[0] })
+                    }
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardContent className="pt-6">
               <div className="space-y-6">
@@ -333,145 +709,309 @@ export default function PlayerTimeTracker() {
                     </p>
                   ) : (
                     <div className="space-y-3">
-                      {(() => {
-                        const result = calculateLevelPoints({
-                          topTimes: getTopTimes(),
-                          personalBests: getTotalPersonalBests(),
-                          totalRecords: getTotalTimesCount(),
-                          levelRating: 100,
-                        });
-
-                        return (
-                          <>
-                            <div className="grid gap-4 md:grid-cols-1">
-                              <div className="p-4 border rounded-md bg-muted">
-                                <h3 className="text-sm font-medium mb-1">
-                                  Points
-                                </h3>
-                                <div className="text-2xl font-bold">
-                                  {result.points}
-                                </div>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  2500 * WR Factor * Competitiveness * Rating *
-                                  Popularity
-                                </p>
+                      <LevelScoreIssues
+                        errors={levelValidation.success ? [] : levelValidation.errors}
+                        warnings={levelValidation.warnings}
+                      />
+                      {levelValidation.success && (
+                        <>
+                          <div className="grid gap-4 md:grid-cols-1">
+                            <div className="p-4 border rounded-md bg-muted">
+                              <h3 className="text-sm font-medium mb-1">
+                                Points
+                              </h3>
+                              <div className="text-2xl font-bold">
+                                {levelResult.points}
                               </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {scoringProfile.basePoints} * WR Factor *
+                                Competitiveness *{" "}
+                                {scoringProfile.rating.enabled &&
+                                  "Rating * "}
+                                Popularity
+                              </p>
                             </div>
+                          </div>
 
-                            <div className="grid gap-4 md:grid-cols-1">
-                              <div className="p-4 border rounded-md bg-muted">
-                                <h3 className="text-sm font-medium mb-1">
-                                  WR Factor
-                                </h3>
-                                <div className="text-2xl font-bold">
-                                  {result.contributions.length}
-                                </div>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  <ul className="list-disc ml-5">
-                                    <li>
-                                      Short levels (≤5s) get a low multiplier
-                                      (min 0.1)
-                                    </li>
-                                    <li>
-                                      Longer levels (up to 20s) get a higher
-                                      multiplier (up to 1.0)
-                                    </li>
-                                    <li>
-                                      Scales smoothly using an ease-out curve
-                                      between 5s and 20s
-                                    </li>
-                                    <li>
-                                      Levels longer than 20s always return 1
-                                    </li>
-                                  </ul>
-                                </p>
+                          <div className="grid gap-4 md:grid-cols-1">
+                            <div className="p-4 border rounded-md bg-muted">
+                              <h3 className="text-sm font-medium mb-1">
+                                WR Factor
+                              </h3>
+                              <div className="text-2xl font-bold">
+                                {levelResult.contributions.length}
                               </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                <ul className="list-disc ml-5">
+                                  <li>
+                                    Short levels (≤5s) get a low multiplier
+                                    (min 0.1)
+                                  </li>
+                                  <li>
+                                    Longer levels (up to 20s) get a higher
+                                    multiplier (up to 1.0)
+                                  </li>
+                                  <li>
+                                    Scales smoothly using an ease-out curve
+                                    between 5s and 20s
+                                  </li>
+                                  <li>
+                                    Levels longer than 20s always return 1
+                                  </li>
+                                </ul>
+                              </p>
                             </div>
+                          </div>
 
-                            <div className="grid gap-4 md:grid-cols-1">
-                              <div className="p-4 border rounded-md bg-muted">
-                                <h3 className="text-sm font-medium mb-1">
-                                  Competitiveness
-                                </h3>
-                                <div className="text-2xl font-bold">
-                                  {result.contributions.competitiveness}
-                                </div>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  <ul className="list-disc ml-5">
-                                    <li>
-                                      Uses real player times to estimate how
-                                      close and grindy the competition is.
-                                    </li>
-                                    <li>
-                                      More spread between top times → higher
-                                      multiplier.
-                                    </li>
-                                    <li>
-                                      More personal bests per record → higher
-                                      multiplier (less grindy).
-                                    </li>
-                                    <li>
-                                      Levels with very few times default to a
-                                      low multiplier (0.25).
-                                    </li>
-                                  </ul>
-                                </p>
+                          <div className="grid gap-4 md:grid-cols-1">
+                            <div className="p-4 border rounded-md bg-muted">
+                              <h3 className="text-sm font-medium mb-1">
+                                Competitiveness
+                              </h3>
+                              <div className="text-2xl font-bold">
+                                {levelResult.contributions.competitiveness}
                               </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                <ul className="list-disc ml-5">
+                                  <li>
+                                    Uses real player times to estimate how
+                                    close and grindy the competition is.
+                                  </li>
+                                  <li>
+                                    More spread between top times → higher
+                                    multiplier.
+                                  </li>
+                                  <li>
+                                    More personal bests per record → higher
+                                    multiplier (less grindy).
+                                  </li>
+                                  <li>
+                                    Levels with very few times default to a
+                                    low multiplier (0.25).
+                                  </li>
+                                </ul>
+                              </p>
                             </div>
+                          </div>
 
-                            <div className="grid gap-4 md:grid-cols-1">
-                              <div className="p-4 border rounded-md bg-muted">
-                                <h3 className="text-sm font-medium mb-1">
-                                  Rating
-                                </h3>
-                                <div className="text-2xl font-bold">
-                                  {result.contributions.rating}
-                                </div>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  <ul className="list-disc ml-5">
-                                    <li>
-                                      Lower rating → lower multiplier (min 0.5)
-                                    </li>
+                          <div className="grid gap-4 md:grid-cols-1">
+                            <div className="p-4 border rounded-md bg-muted">
+                              <h3 className="text-sm font-medium mb-1">
+                                Rating
+                              </h3>
+                              <div className="text-2xl font-bold">
+                                {levelResult.contributions.rating}
+                              </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                <ul className="list-disc ml-5">
+                                  {!scoringProfile.rating.enabled && (
                                     <li>
-                                      Higher rating → higher multiplier (up to
-                                      1.3)
+                                      Not applied: the rating modifier is
+                                      turned off in the scoring settings
                                     </li>
-                                    <li>Linearly scales between 0 and 100</li>
-                                  </ul>
-                                </p>
-                              </div>
+                                  )}
+                                  <li>
+                                    Lower rating → lower multiplier (min 0.5)
+                                  </li>
+                                  <li>
+                                    Higher rating → higher multiplier (up to
+                                    1.3)
+                                  </li>
+                                  <li>Linearly scales between 0 and 100</li>
+                                </ul>
+                              </p>
                             </div>
+                          </div>
 
-                            <div className="grid gap-4 md:grid-cols-1">
-                              <div className="p-4 border rounded-md bg-muted">
-                                <h3 className="text-sm font-medium mb-1">
-                                  Popularity
-                                </h3>
-                                <div className="text-2xl font-bold">
-                                  {result.contributions.popularity}
-                                </div>
-                                <p className="text-xs text-muted-foreground mt-1">
-                                  <ul className="list-disc ml-5">
-                                    <li>
-                                      Fewer PBs → lower multiplier (min 0.8)
-                                    </li>
-                                    <li>
-                                      More PBs → higher multiplier (up to 1.3)
-                                    </li>
-                                    <li>
-                                      Scales smoothly up to a cap of 250 PBs
-                                    </li>
-                                  </ul>
-                                </p>
+                          <div className="grid gap-4 md:grid-cols-1">
+                            <div className="p-4 border rounded-md bg-muted">
+                              <h3 className="text-sm font-medium mb-1">
+                                Popularity
+                              </h3>
+                              <div className="text-2xl font-bold">
+                                {levelResult.contributions.popularity}
                               </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                <ul className="list-disc ml-5">
+                                  <li>
+                                    Fewer PBs → lower multiplier (min 0.8)
+                                  </li>
+                                  <li>
+                                    More PBs → higher multiplier (up to 1.3)
+                                  </li>
+                                  <li>
+                                    Scales smoothly up to a cap of 250 PBs
+                                  </li>
+                                </ul>
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="show-trace">
+                                Show calculation trace
+                              </Label>
+                              <Switch
+                                id="show-trace"
+                                checked={showTrace}
+                                onCheckedChange={setShowTrace}
+                              />
                             </div>
-                          </>
-                        );
-                      })()}
+                            {showTrace && (
+                              <LevelPointsTrace trace={levelResult.trace} />
+                            )}
+                          </div>
+                        </>
+                      )}
                     </div>
                   )}
                 </div>
 
+                {levelValidation.success ? (
+                  <>
+                    {/* Export */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">Export</h3>
+                      <ExportPanel
+                        level={activeLevel}
+                        result={levelResult}
+                        profile={scoringProfile}
+                      />
+                    </div>
+
+                    {/* Outlier Detection */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Outlier Detection
+                      </h3>
+                      {levelInput.topTimes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No times recorded yet.
+                        </p>
+                      ) : (
+                        <OutlierDetection
+                          level={activeLevel}
+                          profile={scoringProfile}
+                          onRemove={setPlayers}
+                        />
+                      )}
+                    </div>
+
+                    {/* Modifier Curves */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Modifier Curves
+                      </h3>
+                      <ModifierCurves input={levelInput} profile={scoringProfile} />
+                    </div>
+
+                    {/* Leaderboard Payouts */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Leaderboard Payouts
+                      </h3>
+                      {players.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No players added yet.
+                        </p>
+                      ) : (
+                        <PlayerPayoutTable
+                          players={players}
+                          levelPoints={levelResult.points}
+                        />
+                      )}
+                    </div>
+
+                    {/* Formula Comparison */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Formula Comparison
+                      </h3>
+                      {players.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No players added yet.
+                        </p>
+                      ) : (
+                        <FormulaComparison
+                          input={levelInput}
+                          profile={scoringProfile}
+                        />
+                      )}
+                    </div>
+
+                    {/* Sensitivity Analysis */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Sensitivity Analysis
+                      </h3>
+                      {levelInput.topTimes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No times recorded yet.
+                        </p>
+                      ) : (
+                        <SensitivityAnalysis
+                          input={levelInput}
+                          profile={scoringProfile}
+                        />
+                      )}
+                    </div>
+
+                    {/* Goal Seek */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">Goal Seek</h3>
+                      {levelInput.topTimes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No times recorded yet.
+                        </p>
+                      ) : (
+                        <GoalSeek
+                          input={levelInput}
+                          profile={scoringProfile}
+                          currentPoints={levelResult.points}
+                        />
+                      )}
+                    </div>
+
+                    {/* Monte Carlo Stability */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Monte Carlo Stability
+                      </h3>
+                      {levelInput.topTimes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No times recorded yet.
+                        </p>
+                      ) : (
+                        <MonteCarloStability
+                          level={activeLevel}
+                          profile={scoringProfile}
+                          seed={randomStream.seed}
+                        />
+                      )}
+                    </div>
+
+                    {/* Points Over Time */}
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3">
+                        Points Over Time
+                      </h3>
+                      {levelInput.topTimes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          No times recorded yet.
+                        </p>
+                      ) : (
+                        <LevelTimeline level={activeLevel} profile={scoringProfile} />
+                      )}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    The export, payouts and analysis of this level appear once
+                    the input errors above are fixed.
+                  </p>
+                )}
+
                 {/* Best Times Summary */}
                 <div>
                   <h3 className="text-lg font-semibold mb-3">
@@ -483,12 +1023,18 @@ export default function PlayerTimeTracker() {
                     </p>
                   ) : (
                     <>
+                      {levelInput.topTimes.length > 0 && levelValidation.success && (
+                        <div className="mb-4">
+                          <TimeDistributionCharts
+                            players={players}
+                            profile={scoringProfile}
+                          />
+                        </div>
+                      )}
+
                       <div className="space-y-2 mb-4 max-h-[40vh] overflow-y-auto pr-1">
                         {players.slice(0, 50).map((player) => {
-                          const bestTime =
-                            player.times.length > 0
-                              ? Math.min(...player.times)
-                              : null;
+                          const bestTime = playerBestTime(player);
                           return (
                             <div
                               key={player.id}
@@ -560,19 +1106,20 @@ export default function PlayerTimeTracker() {
                       {players.map((player) => (
                         <div key={player.id} className="p-3 border rounded-md">
                           <h4 className="font-medium mb-1">{player.name}</h4>
-                          {player.times.length === 0 ? (
+                          {player.records.length === 0 ? (
                             <p className="text-sm text-muted-foreground">
                               No times recorded.
                             </p>
                           ) : (
                             <div className="text-sm">
                               <div className="flex flex-wrap gap-2 mb-2">
-                                {player.times.map((time, index) => (
+                                {player.records.map((record, index) => (
                                   <span
                                     key={index}
                                     className="px-2 py-1 bg-gray-100 rounded font-mono text-xs"
+                                    title={new Date(record.submittedAt).toLocaleString()}
                                   >
-                                    {formatTime(time)}
+                                    {formatTime(record.time)}
                                   </span>
                                 ))}
                               </div>
@@ -580,12 +1127,12 @@ export default function PlayerTimeTracker() {
                                 <div>
                                   <span className="font-medium">Best: </span>
                                   <span className="font-mono">
-                                    {formatTime(Math.min(...player.times))}
+                                    {formatTime(playerBestTime(player) ?? 0)}
                                   </span>
                                 </div>
                                 <div>
                                   <span className="font-medium">Count: </span>
-                                  <span>{player.times.length}</span>
+                                  <span>{player.records.length}</span>
                                 </div>
                               </div>
                             </div>
@@ -670,19 +1217,20 @@ function PlayerCard({
             <Clock className="h-4 w-4" />
             Times
           </h3>
-          {player.times.length === 0 ? (
+          {player.records.length === 0 ? (
             <p className="text-sm text-muted-foreground">
               No times recorded yet.
             </p>
           ) : (
             <ul className="space-y-1 max-h-40 overflow-y-auto">
-              {player.times.map((time, index) => (
+              {player.records.map((record, index) => (
                 <li
                   key={index}
                   className="text-sm border-b pb-1 flex justify-between items-center"
+                  title={new Date(record.submittedAt).toLocaleString()}
                 >
                   <span>
-                    {index + 1}. {formatTime(time)}
+                    {index + 1}. {formatTime(record.time)}
                   </span>
                   <Button
                     variant="ghost"
@@ -734,7 +1282,7 @@ function PlayerCard({
               variant="outline"
               size="sm"
               onClick={() => onModifyTime(player.id, -5)}
-              disabled={player.times.length === 0}
+              disabled={player.records.length === 0}
             >
               -5
             </Button>
@@ -742,7 +1290,7 @@ function PlayerCard({
               variant="outline"
               size="sm"
               onClick={() => onModifyTime(player.id, -1)}
-              disabled={player.times.length === 0}
+              disabled={player.records.length === 0}
             >
               -1
             </Button>
@@ -750,7 +1298,7 @@ function PlayerCard({
               variant="outline"
               size="sm"
               onClick={() => onModifyTime(player.id, 1)}
-              disabled={player.times.length === 0}
+              disabled={player.records.length === 0}
             >
               +1
             </Button>
@@ -758,7 +1306,7 @@ function PlayerCard({
               variant="outline"
               size="sm"
               onClick={() => onModifyTime(player.id, 5)}
-              disabled={player.times.length === 0}
+              disabled={player.records.length === 0}
             >
               +5
             </Button>
@@ -0,0 +1,28 @@
+import fc from "fast-check";
+import type { CalculateLevelScore } from "../calculateLevelPoints";
+
+export const time = fc.double({ min: 0.5, max: 600, noNaN: true });
+export const rating = fc.double({ min: 0, max: 100, noNaN: true });
+
+/**
+ * Level inputs as the tracker builds them: sorted top times, at least as many PBs as top times and a realistic
+ * number of attempts per PB.
+ */
+export const levelInput = fc
+	.record({
+		topTimes: fc.array(time, { minLength: 1, maxLength: 50 }).map((times) => times.sort((a, b) => a - b)),
+		extraPbs: fc.integer({ min: 0, max: 500 }),
+		attemptsPerPb: fc.double({ min: 1, max: 20, noNaN: true }),
+		levelRating: rating,
+	})
+	.map(({ topTimes, extraPbs, attemptsPerPb, levelRating }): CalculateLevelScore => {
+		// Fewer than 50 top times means every PB is a top time
+		const personalBests = topTimes.length + (topTimes.length === 50 ? extraPbs : 0);
+
+		return {
+			topTimes,
+			personalBests,
+			totalRecords: Math.ceil(personalBests * attemptsPerPb),
+			levelRating,
+		};
+	});
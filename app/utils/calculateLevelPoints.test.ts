@@ -0,0 +1,200 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { levelInput, rating, time } from "./__fixtures__/arbitraries";
+import goldenFixtures from "./__fixtures__/calculateLevelPoints.json";
+import {
+	calculateLevelPoints,
+	clamp,
+	levelScoreCompetitivenessMultiplier,
+	levelScoreLengthMultiplier,
+	levelScorePopularityModifier,
+	levelScoreRatingContribution,
+	levelScoreRatingModifier,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, createScoringProfile } from "./scoringProfile";
+
+const profile = DEFAULT_SCORING_PROFILE;
+const ratingProfile = createScoringProfile({ rating: { enabled: true } });
+
+describe("clamp", () => {
+	it("keeps values within range", () => {
+		expect(clamp(5, 0, 10)).toBe(5);
+		expect(clamp(-1, 0, 10)).toBe(0);
+		expect(clamp(11, 0, 10)).toBe(10);
+	});
+
+	it("returns NaN for non-finite inputs", () => {
+		expect(clamp(Number.NaN, 0, 1)).toBeNaN();
+		expect(clamp(0.5, Number.NEGATIVE_INFINITY, 1)).toBeNaN();
+		expect(clamp(0.5, 0, Number.POSITIVE_INFINITY)).toBeNaN();
+	});
+
+	it("always lands between min and max", () => {
+		fc.assert(
+			fc.property(fc.double({ noNaN: true, noDefaultInfinity: true }), fc.double({ min: -1e6, max: 1e6, noNaN: true }), fc.double({ min: 0, max: 1e6, noNaN: true }), (value, min, width) => {
+				const clamped = clamp(value, min, min + width);
+				expect(clamped).toBeGreaterThanOrEqual(min);
+				expect(clamped).toBeLessThanOrEqual(min + width);
+			}),
+		);
+	});
+});
+
+describe("levelScoreLengthMultiplier", () => {
+	it("uses the minimum up to the start of the curve and the maximum from its end", () => {
+		expect(levelScoreLengthMultiplier(2, profile)).toBe(profile.length.min);
+		expect(levelScoreLengthMultiplier(profile.length.startSeconds, profile)).toBe(profile.length.min);
+		expect(levelScoreLengthMultiplier(profile.length.endSeconds, profile)).toBe(profile.length.max);
+		expect(levelScoreLengthMultiplier(300, profile)).toBe(profile.length.max);
+	});
+
+	it("stays within its bounds and never shrinks for longer levels", () => {
+		fc.assert(
+			fc.property(time, time, (a, b) => {
+				const [shorter, longer] = a <= b ? [a, b] : [b, a];
+				const multiplier = levelScoreLengthMultiplier(shorter, profile);
+
+				expect(multiplier).toBeGreaterThanOrEqual(profile.length.min);
+				expect(multiplier).toBeLessThanOrEqual(profile.length.max);
+				expect(levelScoreLengthMultiplier(longer, profile)).toBeGreaterThanOrEqual(multiplier);
+			}),
+		);
+	});
+});
+
+describe("levelScoreCompetitivenessMultiplier", () => {
+	it("falls back when there are too few top times", () => {
+		const topTimes = [30, 31, 32, 33, 34];
+		const result = levelScoreCompetitivenessMultiplier(30, topTimes, 5, 10, profile);
+
+		expect(result.modifier).toBe(profile.competitiveness.fallback);
+	});
+
+	it("stays within its bounds", () => {
+		fc.assert(
+			fc.property(levelInput, ({ topTimes, personalBests, totalRecords }) => {
+				const { modifier } = levelScoreCompetitivenessMultiplier(topTimes[0], topTimes, personalBests, totalRecords, profile);
+
+				expect(modifier).toBeGreaterThanOrEqual(Math.min(profile.competitiveness.min, profile.competitiveness.fallback));
+				expect(modifier).toBeLessThanOrEqual(profile.competitiveness.max);
+			}),
+		);
+	});
+});
+
+describe("levelScoreRatingModifier", () => {
+	it("maps 0 and 100 to the ends of the range and clamps beyond them", () => {
+		expect(levelScoreRatingModifier(0, profile)).toBe(profile.rating.min);
+		expect(levelScoreRatingModifier(100, profile)).toBe(profile.rating.max);
+		expect(levelScoreRatingModifier(-50, profile)).toBe(profile.rating.min);
+		expect(levelScoreRatingModifier(150, profile)).toBe(profile.rating.max);
+	});
+
+	it("stays within its bounds and grows with the rating", () => {
+		fc.assert(
+			fc.property(rating, rating, (a, b) => {
+				const [lower, higher] = a <= b ? [a, b] : [b, a];
+				const modifier = levelScoreRatingModifier(lower, profile);
+
+				expect(modifier).toBeGreaterThanOrEqual(profile.rating.min);
+				expect(modifier).toBeLessThanOrEqual(profile.rating.max);
+				expect(levelScoreRatingModifier(higher, profile)).toBeGreaterThanOrEqual(modifier);
+			}),
+		);
+	});
+});
+
+describe("levelScoreRatingContribution", () => {
+	it("is neutral while the rating is disabled or has no weight", () => {
+		expect(levelScoreRatingContribution(0, profile)).toBe(1);
+		expect(levelScoreRatingContribution(0, createScoringProfile({ rating: { enabled: true, weight: 0 } }))).toBe(1);
+	});
+
+	it("applies the full modifier at a weight of 1", () => {
+		fc.assert(
+			fc.property(rating, (levelRating) => {
+				expect(levelScoreRatingContribution(levelRating, ratingProfile)).toBeCloseTo(levelScoreRatingModifier(levelRating, ratingProfile));
+			}),
+		);
+	});
+});
+
+describe("levelScorePopularityModifier", () => {
+	it("uses the below-minimum modifier for too few PBs and the maximum from the cap", () => {
+		expect(levelScorePopularityModifier(profile.minimumPbs - 1, profile)).toBe(profile.popularity.belowMinimum);
+		expect(levelScorePopularityModifier(profile.popularity.pbCap, profile)).toBe(profile.popularity.max);
+		expect(levelScorePopularityModifier(10000, profile)).toBe(profile.popularity.max);
+	});
+
+	it("stays within its bounds and grows with the PB count", () => {
+		fc.assert(
+			fc.property(fc.nat(1000), fc.nat(1000), (a, b) => {
+				const [fewer, more] = a <= b ? [a, b] : [b, a];
+				const modifier = levelScorePopularityModifier(fewer, profile);
+
+				expect(modifier).toBeGreaterThanOrEqual(Math.min(profile.popularity.min, profile.popularity.belowMinimum));
+				expect(modifier).toBeLessThanOrEqual(profile.popularity.max);
+				expect(levelScorePopularityModifier(more, profile)).toBeGreaterThanOrEqual(modifier);
+			}),
+		);
+	});
+});
+
+describe("calculateLevelPoints", () => {
+	it.each(goldenFixtures)("matches the golden result for $name", ({ input, profile: overrides, expected }) => {
+		const result = calculateLevelPoints(input, createScoringProfile(overrides ?? {}));
+
+		expect(result.points).toBe(expected.points);
+		for (const [factor, value] of Object.entries(expected.contributions)) {
+			expect(result.contributions[factor as keyof typeof result.contributions]).toBeCloseTo(value, 10);
+		}
+	});
+
+	it("is worth 0 points without records", () => {
+		expect(calculateLevelPoints({ topTimes: [], personalBests: 0, totalRecords: 0, levelRating: 100 }).points).toBe(0);
+	});
+
+	it("never returns NaN and never goes negative", () => {
+		fc.assert(
+			fc.property(levelInput, (input) => {
+				const result = calculateLevelPoints(input, ratingProfile);
+
+				expect(Number.isFinite(result.points)).toBe(true);
+				expect(result.points).toBeGreaterThanOrEqual(0);
+				for (const value of Object.values(result.contributions)) {
+					expect(Number.isFinite(value)).toBe(true);
+				}
+			}),
+		);
+	});
+
+	it("is deterministic", () => {
+		fc.assert(
+			fc.property(levelInput, (input) => {
+				expect(calculateLevelPoints(input, ratingProfile)).toEqual(calculateLevelPoints(structuredClone(input), ratingProfile));
+			}),
+		);
+	});
+
+	it("never loses points for a higher rating", () => {
+		fc.assert(
+			fc.property(levelInput, rating, (input, levelRating) => {
+				const higher = Math.max(input.levelRating, levelRating);
+
+				expect(calculateLevelPoints({ ...input, levelRating: higher }, ratingProfile).points)
+					.toBeGreaterThanOrEqual(calculateLevelPoints(input, ratingProfile).points);
+			}),
+		);
+	});
+
+	it("never loses points for more PBs with the same records", () => {
+		fc.assert(
+			fc.property(levelInput, fc.nat(500), (input, extraPbs) => {
+				const personalBests = Math.min(input.totalRecords, input.personalBests + extraPbs);
+
+				expect(calculateLevelPoints({ ...input, personalBests }, profile).points)
+					.toBeGreaterThanOrEqual(calculateLevelPoints(input, profile).points);
+			}),
+		);
+	});
+});
@@ -1,5 +1,4 @@
-const BASE_POINTS = 2_500;
-const MINIMUM_PBS = 5;
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
 
 /**
  * Restricts a number to stay within a given range.
@@ -32,11 +31,11 @@ function average(arr: number[]): number {
  * - Scales smoothly using an ease-out curve between 5s and 20s
  * - Levels longer than 20s always return 1
  */
-export const levelScoreLengthMultiplier = (wrTime: number) => {
-	const MIN = 0.1;
-	const MAX = 1 - MIN;
-	const START = 5;
-	const END = 20;
+export const levelScoreLengthMultiplier = (wrTime: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE) => {
+	const MIN = profile.length.min;
+	const MAX = profile.length.max - MIN;
+	const START = profile.length.startSeconds;
+	const END = profile.length.endSeconds;
 
 	if (wrTime < END) {
 		const clamped = Math.max(0, wrTime - START) / (END - START); // normalized [0,1]
@@ -44,16 +43,44 @@ export const levelScoreLengthMultiplier = (wrTime: number) => {
 		return MIN + eased * MAX;
 	}
 
-	return 1;
+	return profile.length.max;
 };
 
-interface LevelScoreCompetitivenessMultiplierResult {
+export interface LevelScoreCompetitivenessMultiplierResult {
 	modifier: number;
 	spreadScore: number;
 	pbRatio: number;
 	grindinessScore: number;
+	avgTop10: number;
+	avgTop50: number;
+	weightedScore: number;
 }
 
+/**
+ * Combines a spread score and PB ratio into the competitiveness multiplier.
+ *
+ * - Grindiness is 1 + ln(2 * PB ratio), so a ratio of 0.5 is neutral
+ * - The weighted sum of both scores is added to 1 and clamped to the profile's range
+ * - Returns a modifier of 0 if the result is not a finite number (e.g. a PB ratio of 0)
+ */
+export const levelScoreCompetitivenessFromScores = (
+	spreadScore: number,
+	pbRatio: number,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+) => {
+	const { spreadWeight, grindinessWeight, min, max } = profile.competitiveness;
+	const grindinessScore = 1 + Math.log(2 * pbRatio);
+
+	const weightedScore =
+		// 0.45 * tightnessScore +
+		spreadWeight * spreadScore +
+		grindinessWeight * grindinessScore;
+
+	const modifier = normaliseNumber(clamp(1 + weightedScore, min, max));
+
+	return { modifier, grindinessScore, weightedScore };
+};
+
 /**
  * EXPERIMENTAL: Calculates a score multiplier based on how competitive a level is.
  *
@@ -67,13 +94,19 @@ export const levelScoreCompetitivenessMultiplier = (
 	topTimes: number[],
 	personalBests: number,
 	totalRecords: number,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
 ): LevelScoreCompetitivenessMultiplierResult => {
-	if (topTimes.length <= MINIMUM_PBS) {
+	const { fallback } = profile.competitiveness;
+
+	if (topTimes.length <= profile.minimumPbs) {
 		return {
-			modifier: 0.25,
+			modifier: fallback,
 			spreadScore: 0,
 			pbRatio: 0,
 			grindinessScore: 0,
+			avgTop10: 0,
+			avgTop50: 0,
+			weightedScore: 0,
 		}
 	}
 
@@ -94,20 +127,17 @@ export const levelScoreCompetitivenessMultiplier = (
 	// PB-to-record ratio: How grindy the level is (smaller is worse)
 	// Note: Also reflects how popular the level is (possible that it should be flipped?)
 	const pbRatio = personalBests > 0 ? personalBests / totalRecords : 0
-	const grindinessScore = 1 + Math.log(2 * pbRatio);
 
-	const weightedScore =
-		// 0.45 * tightnessScore +
-		0.65 * spreadScore +
-		0.2 * grindinessScore;
-
-	const modifier = normaliseNumber(clamp(1 + weightedScore, -3, 3));
+	const { modifier, grindinessScore, weightedScore } = levelScoreCompetitivenessFromScores(spreadScore, pbRatio, profile);
 
 	return {
 		modifier,
 		spreadScore,
 		pbRatio,
-		grindinessScore
+		grindinessScore,
+		avgTop10: avgTop10Time,
+		avgTop50: avgTop50Time,
+		weightedScore,
 	}
 };
 
@@ -120,14 +150,30 @@ export const levelScoreCompetitivenessMultiplier = (
  * - Higher rating → higher multiplier (up to 1.3)
  * - Linearly scales between 0 and 100
  */
-export const levelScoreRatingModifier = (levelRating: number) => {
-	const MIN = 0.5;
-	const MAX = 1.3 - MIN;
+export const levelScoreRatingModifier = (levelRating: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE) => {
+	const MIN = profile.rating.min;
+	const MAX = profile.rating.max - MIN;
 	const normalised = clamp(levelRating / 100, 0, 1);
 
 	return MIN + normalised * MAX;
 };
 
+/**
+ * Returns the rating multiplier that is actually applied to the level's points.
+ *
+ * - Returns 1 if the rating is disabled in the profile
+ * - Otherwise moves the rating modifier towards 1 based on the profile's weight
+ */
+export const levelScoreRatingContribution = (levelRating: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE) => {
+	if (!profile.rating.enabled) {
+		return 1;
+	}
+
+	const modifier = normaliseNumber(levelScoreRatingModifier(levelRating, profile));
+
+	return 1 + profile.rating.weight * (modifier - 1);
+};
+
 /**
  * Returns a score multiplier based on how many players set a personal best (PB) on a level.
  *
@@ -135,13 +181,13 @@ export const levelScoreRatingModifier = (levelRating: number) => {
  * - More PBs → higher multiplier (up to 1.3)
  * - Scales smoothly up to a cap of 250 PBs
  */
-export const levelScorePopularityModifier = (personalBests: number) => {
-	const MIN = 0.75;
-	const MAX = 1.3 - MIN;
-	const PB_CAP = 250;
+export const levelScorePopularityModifier = (personalBests: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE) => {
+	const MIN = profile.popularity.min;
+	const MAX = profile.popularity.max - MIN;
+	const PB_CAP = profile.popularity.pbCap;
 
-	if (personalBests < MINIMUM_PBS) {
-		return MIN + 0.05;
+	if (personalBests < profile.minimumPbs) {
+		return profile.popularity.belowMinimum;
 	}
 
 	if (personalBests < PB_CAP) {
@@ -161,31 +207,42 @@ const normaliseNumber = (value: number) => {
 	return Number.isNaN(value) ? 0 : value;
 };
 
-interface CalculateLevelScore {
+export interface CalculateLevelScore {
 	topTimes: number[];
 	personalBests: number;
 	totalRecords: number;
 	levelRating: number;
 }
 
-interface LevelScoreContributions {
+export interface LevelScoreContributions {
 	length: number;
 	competitiveness: number;
 	rating: number;
 	popularity: number;
 }
 
-interface CalculateLevelPointsResult {
+export interface CalculateLevelPointsResult {
 	points: number;
 	contributions: LevelScoreContributions;
 }
 
-export const calculateLevelPoints = ({
-	topTimes,
-	personalBests,
-	totalRecords,
-	levelRating,
-}: CalculateLevelScore): CalculateLevelPointsResult => {
+/**
+ * Calculates the points a level is worth.
+ *
+ * - Multiplies the profile's base points by every modifier
+ * - Uses the default in-game balance unless another profile is given
+ * - Levels without any records are worth 0 points
+ * - Inputs are not validated; use `safeCalculateLevelPoints` to reject NaN, unsorted or impossible inputs
+ */
+export const calculateLevelPoints = (
+	{
+		topTimes,
+		personalBests,
+		totalRecords,
+		levelRating,
+	}: CalculateLevelScore,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): CalculateLevelPointsResult => {
 	if (totalRecords === 0) {
 		return {
 			points: 0,
@@ -199,16 +256,16 @@ export const calculateLevelPoints = ({
 	}
 
 	const wrTime = topTimes[0] ?? 0;
-	const lengthMultiplier = normaliseNumber(levelScoreLengthMultiplier(wrTime));
-	const { modifier: competitivenessMultiplier } = levelScoreCompetitivenessMultiplier(wrTime, topTimes, personalBests, totalRecords);
-	const ratingModifier = normaliseNumber(levelScoreRatingModifier(levelRating));
-	const popularityModifier = normaliseNumber(levelScorePopularityModifier(personalBests));
+	const lengthMultiplier = normaliseNumber(levelScoreLengthMultiplier(wrTime, profile));
+	const { modifier: competitivenessMultiplier } = levelScoreCompetitivenessMultiplier(wrTime, topTimes, personalBests, totalRecords, profile);
+	const ratingModifier = levelScoreRatingContribution(levelRating, profile);
+	const popularityModifier = normaliseNumber(levelScorePopularityModifier(personalBests, profile));
 
 	const points = Math.round(
-		BASE_POINTS *
+		profile.basePoints *
 		lengthMultiplier *
 		competitivenessMultiplier *
-		1 *
+		ratingModifier *
 		popularityModifier,
 	);
 
@@ -217,7 +274,7 @@ export const calculateLevelPoints = ({
 		contributions: {
 			length: lengthMultiplier,
 			competitiveness: competitivenessMultiplier,
-			rating: 1,
+			rating: ratingModifier,
 			popularity: popularityModifier,
 		},
 	};
@@ -0,0 +1,47 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PAYOUT_CURVES, calculatePlayerPayouts, payoutShare } from "./calculatePlayerPayouts";
+import type { Player } from "./player";
+
+const percentile = DEFAULT_PAYOUT_CURVES.percentile;
+
+describe("payoutShare", () => {
+	it("always puts rank 1 into the first percentile tier", () => {
+		fc.assert(
+			fc.property(fc.integer({ min: 1, max: 10_000 }), (rankedCount) => {
+				expect(payoutShare(1, rankedCount, percentile)).toBe(1);
+			}),
+		);
+	});
+
+	it("uses the first tier the share of players ranked above falls into", () => {
+		expect([1, 2, 5, 6, 11, 26, 51, 100].map((rank) => payoutShare(rank, 100, percentile))).toEqual([1, 0.8, 0.8, 0.65, 0.5, 0.3, 0.1, 0.1]);
+	});
+
+	it("pays nothing outside every tier", () => {
+		expect(payoutShare(3, 4, { type: "percentile", tiers: [{ percentile: 50, share: 1 }] })).toBe(0);
+		expect(payoutShare(0, 4, percentile)).toBe(0);
+	});
+
+	it("drops evenly on the linear curve and by the decay on the exponential curve", () => {
+		expect([1, 2, 4].map((rank) => payoutShare(rank, 4, DEFAULT_PAYOUT_CURVES.linear))).toEqual([1, 0.75, 0.25]);
+		expect(payoutShare(3, 4, DEFAULT_PAYOUT_CURVES.exponential)).toBeCloseTo(0.81);
+	});
+});
+
+describe("calculatePlayerPayouts", () => {
+	it("pays tied players the same and skips players without times", () => {
+		const players: Player[] = [
+			{ id: "a", name: "Ann", records: [{ time: 30, submittedAt: 0 }] },
+			{ id: "b", name: "Bob", records: [{ time: 30, submittedAt: 0 }] },
+			{ id: "c", name: "Cat", records: [{ time: 32.5, submittedAt: 0 }] },
+			{ id: "d", name: "Dan", records: [] },
+		];
+
+		expect(calculatePlayerPayouts(players, 900).map(({ name, rank, gapToWr, points }) => [name, rank, gapToWr, points])).toEqual([
+			["Ann", 1, 0, 900],
+			["Bob", 1, 0, 900],
+			["Cat", 3, 2.5, 300],
+		]);
+	});
+});
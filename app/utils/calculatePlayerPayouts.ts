@@ -0,0 +1,99 @@
+import { rankPlayers, type Player } from "./player";
+
+export type PayoutCurve =
+	| { type: "linear" }
+	| { type: "exponential"; decay: number }
+	| { type: "percentile"; tiers: PercentileTier[] };
+
+export type PayoutCurveType = PayoutCurve["type"];
+
+export interface PercentileTier {
+	/** Players ranked within the first `percentile`% of the leaderboard fall into this tier (0–100]. */
+	percentile: number;
+	/** Share of the level points awarded to players in this tier (0–1). */
+	share: number;
+}
+
+export interface PlayerPayout {
+	playerId: string;
+	name: string;
+	rank: number;
+	bestTime: number;
+	gapToWr: number;
+	points: number;
+}
+
+/**
+ * The curve of each type that the payout table starts with.
+ *
+ * - Exponential keeps 90% of the previous rank's share
+ * - Percentile pays the top 1% in full, down to 10% for the bottom half
+ */
+export const DEFAULT_PAYOUT_CURVES: Record<PayoutCurveType, PayoutCurve> = {
+	linear: { type: "linear" },
+	exponential: { type: "exponential", decay: 0.9 },
+	percentile: {
+		type: "percentile",
+		tiers: [
+			{ percentile: 1, share: 1 },
+			{ percentile: 5, share: 0.8 },
+			{ percentile: 10, share: 0.65 },
+			{ percentile: 25, share: 0.5 },
+			{ percentile: 50, share: 0.3 },
+			{ percentile: 100, share: 0.1 },
+		],
+	},
+};
+
+/**
+ * Returns the share (0–1) of the level points awarded to a rank.
+ *
+ * - Linear: drops evenly from 1 for rank 1 to 1/n for the last rank
+ * - Exponential: multiplies by `decay` for every rank below the WR
+ * - Percentile: uses the share of the first tier the rank falls into, 0 if none; rank 1 is always in the first tier
+ */
+export const payoutShare = (rank: number, rankedCount: number, curve: PayoutCurve) => {
+	if (rankedCount <= 0 || rank < 1) {
+		return 0;
+	}
+
+	switch (curve.type) {
+		case "linear":
+			return (rankedCount - rank + 1) / rankedCount;
+		case "exponential":
+			return Math.pow(curve.decay, rank - 1);
+		case "percentile": {
+			// Share of the leaderboard ranked above this player
+			const percentile = ((rank - 1) / rankedCount) * 100;
+			const tier = [...curve.tiers]
+				.sort((a, b) => a.percentile - b.percentile)
+				.find((t) => percentile < t.percentile);
+
+			return tier?.share ?? 0;
+		}
+	}
+};
+
+/**
+ * Distributes a level's points over the players on its leaderboard.
+ *
+ * - Players are ranked by their best time; players without times earn nothing
+ * - Every player earns the level points scaled by their rank's share, rounded
+ */
+export const calculatePlayerPayouts = (
+	players: Player[],
+	levelPoints: number,
+	curve: PayoutCurve = DEFAULT_PAYOUT_CURVES.linear,
+): PlayerPayout[] => {
+	const ranked = rankPlayers(players);
+	const wrTime = ranked[0]?.bestTime ?? 0;
+
+	return ranked.map(({ player, rank, bestTime }) => ({
+		playerId: player.id,
+		name: player.name,
+		rank,
+		bestTime,
+		gapToWr: bestTime - wrTime,
+		points: Math.round(levelPoints * payoutShare(rank, ranked.length, curve)),
+	}));
+};
@@ -0,0 +1,68 @@
+/**
+ * Parses CSV text into rows of fields.
+ *
+ * - Fields may be wrapped in double quotes to contain commas, quotes ("") or newlines
+ * - Both \n and \r\n line endings are accepted
+ * - Empty lines are skipped
+ */
+export const parseCsv = (text: string): string[][] => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== "") {
+			rows.push(row);
+		}
+		row = [];
+		field = "";
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n") {
+			endRow();
+		} else if (char !== "\r") {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) {
+		endRow();
+	}
+
+	return rows;
+};
+
+/**
+ * Escapes a single CSV field, quoting it only when needed.
+ */
+export const escapeCsvField = (value: string | number | boolean | null | undefined): string => {
+	const text = value === null || value === undefined ? "" : String(value);
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Converts rows of fields into CSV text that `parseCsv` can read back.
+ */
+export const toCsv = (rows: (string | number | boolean | null | undefined)[][]): string => {
+	return rows.map((row) => row.map(escapeCsvField).join(",")).join("\n") + "\n";
+};
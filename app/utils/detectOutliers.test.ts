@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_OUTLIER_SETTINGS, detectOutliers, excludeRecords, recordKey } from "./detectOutliers";
+import type { Player } from "./player";
+
+const player = (id: string, records: [time: number, submittedAt: number][]): Player => ({
+	id,
+	name: id,
+	records: records.map(([time, submittedAt]) => ({ time, submittedAt })),
+});
+
+/**
+ * A leaderboard of ten players, one second apart, with nothing suspicious.
+ */
+const fair = Array.from({ length: 10 }, (_, i) => player(`fair-${i}`, [[40 + i, i * 1_000_000]]));
+
+const reasonsOf = (players: Player[]) => {
+	return detectOutliers(players).map(({ playerId, recordIndex, reasons }) => [
+		recordKey(playerId, recordIndex),
+		reasons.map(({ reason }) => reason),
+	]);
+};
+
+describe("detectOutliers", () => {
+	it("flags nothing on a fair leaderboard", () => {
+		expect(detectOutliers(fair)).toEqual([]);
+	});
+
+	it("flags times below the floor", () => {
+		expect(reasonsOf([player("fast", [[0.5, 0]]), ...fair])).toContainEqual(["fast:0", ["below-floor", "wr-gap"]]);
+	});
+
+	it("flags every record above a suspicious gap to the next top time", () => {
+		const cheater = player("cheater", [[20, 0], [25, 1_000_000], [39, 2_000_000]]);
+
+		expect(reasonsOf([cheater, ...fair])).toEqual([
+			["cheater:0", ["wr-gap"]],
+			["cheater:1", ["wr-gap"]],
+		]);
+	});
+
+	it("flags the same time submitted again within the duplicate window", () => {
+		const twice = player("twice", [[45, 0], [45, DEFAULT_OUTLIER_SETTINGS.duplicateWindow], [45, DEFAULT_OUTLIER_SETTINGS.duplicateWindow * 3]]);
+
+		expect(reasonsOf([...fair, twice])).toEqual([["twice:1", ["duplicate"]]]);
+	});
+
+	it("flags a PB that improves too much on the previous PB", () => {
+		// Submitted in a different order than listed: the jump is measured against the earlier PB
+		const jumper = player("jumper", [[41.5, 2_000], [60, 1_000], [43, 0]]);
+
+		expect(reasonsOf([...fair, jumper])).toEqual([]);
+		expect(reasonsOf([...fair, player("jumper", [[41.5, 2_000], [60, 0]])])).toEqual([["jumper:0", ["pb-jump"]]]);
+	});
+});
+
+describe("excludeRecords", () => {
+	it("removes only the excluded records and keeps players without records", () => {
+		const players = [player("a", [[30, 0], [31, 1]]), player("b", [[32, 0]])];
+		const excluded = excludeRecords(players, new Set([recordKey("a", 0), recordKey("b", 0)]));
+
+		expect(excluded).toEqual([player("a", [[31, 1]]), player("b", [])]);
+		expect(players[0].records).toHaveLength(2);
+	});
+});
@@ -0,0 +1,138 @@
+import { rankPlayers, type Player, type PlayerRecord } from "./player";
+
+export type OutlierReason = "below-floor" | "wr-gap" | "duplicate" | "pb-jump";
+
+export interface OutlierSettings {
+	/** Times below this many seconds are considered impossible. */
+	timeFloor: number;
+	/** Largest share (0–1) a top time may be faster than the next best time. */
+	maxTopGap: number;
+	/** Number of top times checked for a suspicious gap to the time behind them. */
+	topGapRanks: number;
+	/** Largest share (0–1) a new PB may improve on the player's previous PB. */
+	maxPbJump: number;
+	/** Equal times of the same player submitted within this many milliseconds are duplicates. */
+	duplicateWindow: number;
+}
+
+export const DEFAULT_OUTLIER_SETTINGS: OutlierSettings = {
+	timeFloor: 1,
+	maxTopGap: 0.15,
+	topGapRanks: 5,
+	maxPbJump: 0.25,
+	duplicateWindow: 60 * 1000,
+};
+
+export interface FlaggedRecord {
+	playerId: string;
+	playerName: string;
+	/** Index of the record in the player's records. */
+	recordIndex: number;
+	record: PlayerRecord;
+	reasons: { reason: OutlierReason; message: string }[];
+}
+
+const percentage = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+/**
+ * Returns a key that identifies a record within a level.
+ */
+export const recordKey = (playerId: string, recordIndex: number) => `${playerId}:${recordIndex}`;
+
+/**
+ * Flags records that are probably cheated, bugged or submitted twice.
+ *
+ * - `below-floor`: the time is below the configured floor
+ * - `wr-gap`: a top time is much faster than the time behind it; every record above the gap is flagged
+ * - `duplicate`: the player submitted the same time again within the duplicate window
+ * - `pb-jump`: a new PB improves on the player's previous PB by more than the allowed share
+ * - Records are listed in the order of their players, with every reason they were flagged for
+ */
+export const detectOutliers = (players: Player[], settings: OutlierSettings = DEFAULT_OUTLIER_SETTINGS): FlaggedRecord[] => {
+	const flagged = new Map<string, FlaggedRecord>();
+
+	const flag = (player: Player, recordIndex: number, reason: OutlierReason, message: string) => {
+		const key = recordKey(player.id, recordIndex);
+		const entry = flagged.get(key) ?? {
+			playerId: player.id,
+			playerName: player.name,
+			recordIndex,
+			record: player.records[recordIndex],
+			reasons: [],
+		};
+
+		entry.reasons.push({ reason, message });
+		flagged.set(key, entry);
+	};
+
+	for (const player of players) {
+		player.records.forEach((record, index) => {
+			if (record.time < settings.timeFloor) {
+				flag(player, index, "below-floor", `${record.time.toFixed(3)}s is below the floor of ${settings.timeFloor}s`);
+			}
+		});
+
+		// Walk the records in the order they were submitted
+		const order = player.records
+			.map((record, index) => ({ record, index }))
+			.sort((a, b) => a.record.submittedAt - b.record.submittedAt);
+
+		let previousBest: number | null = null;
+		order.forEach(({ record, index }, position) => {
+			const duplicate = order
+				.slice(0, position)
+				.some((earlier) => earlier.record.time === record.time && record.submittedAt - earlier.record.submittedAt <= settings.duplicateWindow);
+			if (duplicate) {
+				flag(player, index, "duplicate", `${record.time.toFixed(3)}s was already submitted shortly before`);
+			}
+
+			if (previousBest !== null && record.time < previousBest) {
+				const jump = (previousBest - record.time) / previousBest;
+				if (jump > settings.maxPbJump) {
+					flag(player, index, "pb-jump", `Improves the previous PB of ${previousBest.toFixed(3)}s by ${percentage(jump)}`);
+				}
+			}
+
+			previousBest = previousBest === null ? record.time : Math.min(previousBest, record.time);
+		});
+	}
+
+	// Find the lowest top time that is suspiciously faster than the one behind it
+	const ranked = rankPlayers(players);
+	let lastSuspicious = -1;
+	for (let i = 0; i < Math.min(settings.topGapRanks, ranked.length - 1); i++) {
+		const next = ranked[i + 1].bestTime;
+		if ((next - ranked[i].bestTime) / next > settings.maxTopGap) {
+			lastSuspicious = i;
+		}
+	}
+
+	// Flag every record above the gap, not just the best one, so excluding them doesn't promote another suspicious time
+	const next = ranked[lastSuspicious + 1]?.bestTime ?? 0;
+	for (const { player } of ranked.slice(0, lastSuspicious + 1)) {
+		player.records.forEach((record, index) => {
+			const gap = (next - record.time) / next;
+			if (gap > settings.maxTopGap) {
+				flag(player, index, "wr-gap", `${percentage(gap)} faster than the next best time of ${next.toFixed(3)}s`);
+			}
+		});
+	}
+
+	const playerOrder = new Map(players.map((player, index) => [player.id, index]));
+
+	return [...flagged.values()].sort((a, b) =>
+		(playerOrder.get(a.playerId) ?? 0) - (playerOrder.get(b.playerId) ?? 0) || a.recordIndex - b.recordIndex);
+};
+
+/**
+ * Returns the players without the excluded records.
+ *
+ * - `excluded` holds keys created with `recordKey`
+ * - Players left without records are kept, like players that haven't set a time yet
+ */
+export const excludeRecords = (players: Player[], excluded: Set<string>): Player[] => {
+	return players.map((player) => ({
+		...player,
+		records: player.records.filter((_, index) => !excluded.has(recordKey(player.id, index))),
+	}));
+};
@@ -0,0 +1,64 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { levelInput } from "./__fixtures__/arbitraries";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { explainLevelPoints, type ExplainedLevelPointsResult } from "./explainLevelPoints";
+import { DEFAULT_SCORING_PROFILE, createScoringProfile } from "./scoringProfile";
+
+const profile = DEFAULT_SCORING_PROFILE;
+const ratingProfile = createScoringProfile({ rating: { enabled: true } });
+
+const step = (result: ExplainedLevelPointsResult, key: string) => {
+	const found = result.trace.find((entry) => entry.key === key);
+	if (!found) {
+		throw new Error(`Missing trace step ${key}`);
+	}
+
+	return found;
+};
+
+describe("explainLevelPoints", () => {
+	it("traces the same factors and points calculateLevelPoints uses", () => {
+		fc.assert(
+			fc.property(levelInput, fc.boolean(), (input, ratingEnabled) => {
+				const scoringProfile = ratingEnabled ? ratingProfile : profile;
+				const expected = calculateLevelPoints(input, scoringProfile);
+				const explained = explainLevelPoints(input, scoringProfile);
+
+				expect(explained.points).toBe(expected.points);
+				expect(step(explained, "points").value).toBe(expected.points);
+				expect(step(explained, "length.multiplier").value).toBe(expected.contributions.length);
+				expect(step(explained, "competitiveness.modifier").value).toBe(expected.contributions.competitiveness);
+				expect(step(explained, "rating.contribution").value).toBe(expected.contributions.rating);
+				expect(step(explained, "popularity.modifier").value).toBe(expected.contributions.popularity);
+			}),
+		);
+	});
+
+	it("reaches its points by multiplying the traced factors", () => {
+		fc.assert(
+			fc.property(levelInput, (input) => {
+				const explained = explainLevelPoints(input, ratingProfile);
+				const product = ["length.multiplier", "competitiveness.modifier", "rating.contribution", "popularity.modifier"]
+					.reduce((total, key) => total * step(explained, key).value, ratingProfile.basePoints);
+
+				expect(Math.round(product)).toBe(explained.points);
+			}),
+		);
+	});
+
+	it("names the branch taken for fallbacks and disabled factors", () => {
+		const explained = explainLevelPoints({ topTimes: [30], personalBests: 1, totalRecords: 1, levelRating: 50 }, profile);
+
+		expect(step(explained, "competitiveness.modifier").branch).toBe("fallback");
+		expect(step(explained, "rating.contribution").branch).toBe("disabled");
+		expect(step(explained, "popularity.modifier").branch).toBe("below-minimum");
+	});
+
+	it("stops after the inputs when there are no records", () => {
+		const explained = explainLevelPoints({ topTimes: [], personalBests: 0, totalRecords: 0, levelRating: 100 }, profile);
+
+		expect(step(explained, "points").branch).toBe("no-records");
+		expect(explained.trace.filter((entry) => entry.factor !== "input")).toHaveLength(1);
+	});
+});
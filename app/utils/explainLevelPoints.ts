@@ -0,0 +1,332 @@
+import {
+	calculateLevelPoints,
+	levelScoreCompetitivenessMultiplier,
+	levelScoreLengthMultiplier,
+	levelScorePopularityModifier,
+	levelScoreRatingContribution,
+	levelScoreRatingModifier,
+	type CalculateLevelPointsResult,
+	type CalculateLevelScore,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+export type LevelPointsTraceFactor =
+	| "input"
+	| "length"
+	| "competitiveness"
+	| "rating"
+	| "popularity"
+	| "points";
+
+export interface LevelPointsTraceStep {
+	factor: LevelPointsTraceFactor;
+	/** Stable identifier of the step, e.g. `competitiveness.spreadScore`. */
+	key: string;
+	label: string;
+	value: number;
+	/** Which clamp, cap or fallback branch produced the value, if any. */
+	branch?: string;
+	reason: string;
+}
+
+export interface ExplainedLevelPointsResult extends CalculateLevelPointsResult {
+	trace: LevelPointsTraceStep[];
+}
+
+/**
+ * Formats a number for use in a trace reason.
+ */
+const format = (value: number) => {
+	return Number.isInteger(value) ? value.toString() : value.toFixed(4);
+};
+
+/**
+ * Returns the value used by the formula, noting when NaN was replaced by 0.
+ */
+const normalised = (value: number) => {
+	return Number.isNaN(value)
+		? { value: 0, branch: "normalised", reason: "Result was NaN and is treated as 0." }
+		: { value };
+};
+
+const traceLength = (wrTime: number, profile: ScoringProfile): LevelPointsTraceStep[] => {
+	const { startSeconds, endSeconds } = profile.length;
+	const multiplier = normalised(levelScoreLengthMultiplier(wrTime, profile));
+
+	let branch: string;
+	let reason: string;
+
+	if (wrTime >= endSeconds) {
+		branch = "cap";
+		reason = `WR of ${format(wrTime)}s is at or above ${endSeconds}s, so the maximum multiplier is used.`;
+	} else if (wrTime <= startSeconds) {
+		branch = "floor";
+		reason = `WR of ${format(wrTime)}s is at or below ${startSeconds}s, so the minimum multiplier is used.`;
+	} else {
+		branch = "ease-out";
+		reason = `WR of ${format(wrTime)}s is eased between ${startSeconds}s and ${endSeconds}s.`;
+	}
+
+	return [
+		{
+			factor: "length",
+			key: "length.multiplier",
+			label: "WR factor",
+			value: multiplier.value,
+			branch: multiplier.branch ?? branch,
+			reason: multiplier.reason ?? reason,
+		},
+	];
+};
+
+const traceCompetitiveness = (
+	wrTime: number,
+	{ topTimes, personalBests, totalRecords }: CalculateLevelScore,
+	profile: ScoringProfile,
+): LevelPointsTraceStep[] => {
+	const result = levelScoreCompetitivenessMultiplier(wrTime, topTimes, personalBests, totalRecords, profile);
+	const { fallback, spreadWeight, grindinessWeight, min, max } = profile.competitiveness;
+
+	if (topTimes.length <= profile.minimumPbs) {
+		return [
+			{
+				factor: "competitiveness",
+				key: "competitiveness.modifier",
+				label: "Competitiveness",
+				value: result.modifier,
+				branch: "fallback",
+				reason: `Only ${topTimes.length} top times (needs more than ${profile.minimumPbs}), so the fallback of ${fallback} is used.`,
+			},
+		];
+	}
+
+	const unclamped = 1 + result.weightedScore;
+	let branch: string;
+	let reason: string;
+
+	if (Number.isNaN(unclamped)) {
+		branch = "normalised";
+		reason = "Weighted score was NaN and is treated as 0.";
+	} else if (unclamped < min) {
+		branch = "clamped-min";
+		reason = `1 + weighted score (${format(unclamped)}) is below ${min} and is clamped.`;
+	} else if (unclamped > max) {
+		branch = "clamped-max";
+		reason = `1 + weighted score (${format(unclamped)}) is above ${max} and is clamped.`;
+	} else {
+		branch = "within-range";
+		reason = `1 + weighted score is within ${min} and ${max}.`;
+	}
+
+	return [
+		{
+			factor: "competitiveness",
+			key: "competitiveness.avgTop10",
+			label: "Average top 10 time",
+			value: result.avgTop10,
+			reason: `Mean of the best ${Math.min(10, topTimes.length)} times.`,
+		},
+		{
+			factor: "competitiveness",
+			key: "competitiveness.avgTop50",
+			label: "Average top 50 time",
+			value: result.avgTop50,
+			reason: `Mean of the best ${Math.min(50, topTimes.length)} times.`,
+		},
+		{
+			factor: "competitiveness",
+			key: "competitiveness.spreadScore",
+			label: "Spread score",
+			value: result.spreadScore,
+			reason: "(avg top 50 - avg top 10) / avg top 50.",
+		},
+		{
+			factor: "competitiveness",
+			key: "competitiveness.pbRatio",
+			label: "PB ratio",
+			value: result.pbRatio,
+			branch: personalBests > 0 ? undefined : "no-pbs",
+			reason: personalBests > 0
+				? `${personalBests} PBs / ${totalRecords} records.`
+				: "There are no PBs, so the ratio is 0.",
+		},
+		{
+			factor: "competitiveness",
+			key: "competitiveness.grindinessScore",
+			label: "Grindiness score",
+			value: result.grindinessScore,
+			reason: "1 + ln(2 * PB ratio).",
+		},
+		{
+			factor: "competitiveness",
+			key: "competitiveness.weightedScore",
+			label: "Weighted score",
+			value: result.weightedScore,
+			reason: `${spreadWeight} * spread score + ${grindinessWeight} * grindiness score.`,
+		},
+		{
+			factor: "competitiveness",
+			key: "competitiveness.modifier",
+			label: "Competitiveness",
+			value: result.modifier,
+			branch,
+			reason,
+		},
+	];
+};
+
+const traceRating = (levelRating: number, profile: ScoringProfile): LevelPointsTraceStep[] => {
+	const contribution = levelScoreRatingContribution(levelRating, profile);
+
+	if (!profile.rating.enabled) {
+		return [
+			{
+				factor: "rating",
+				key: "rating.contribution",
+				label: "Rating",
+				value: contribution,
+				branch: "disabled",
+				reason: "The rating modifier is turned off in the scoring profile.",
+			},
+		];
+	}
+
+	const modifier = normalised(levelScoreRatingModifier(levelRating, profile));
+	let branch: string;
+	let reason: string;
+
+	if (levelRating < 0) {
+		branch = "clamped-min";
+		reason = `Rating of ${format(levelRating)} is below 0 and is clamped.`;
+	} else if (levelRating > 100) {
+		branch = "clamped-max";
+		reason = `Rating of ${format(levelRating)} is above 100 and is clamped.`;
+	} else {
+		branch = "linear";
+		reason = `Rating of ${format(levelRating)} is scaled linearly between ${profile.rating.min} and ${profile.rating.max}.`;
+	}
+
+	return [
+		{
+			factor: "rating",
+			key: "rating.modifier",
+			label: "Rating modifier",
+			value: modifier.value,
+			branch: modifier.branch ?? branch,
+			reason: modifier.reason ?? reason,
+		},
+		{
+			factor: "rating",
+			key: "rating.contribution",
+			label: "Rating",
+			value: contribution,
+			reason: `1 + ${profile.rating.weight} * (rating modifier - 1).`,
+		},
+	];
+};
+
+const tracePopularity = (personalBests: number, profile: ScoringProfile): LevelPointsTraceStep[] => {
+	const { pbCap } = profile.popularity;
+	const modifier = normalised(levelScorePopularityModifier(personalBests, profile));
+
+	let branch: string;
+	let reason: string;
+
+	if (personalBests < profile.minimumPbs) {
+		branch = "below-minimum";
+		reason = `${personalBests} PBs is below the minimum of ${profile.minimumPbs}.`;
+	} else if (personalBests >= pbCap) {
+		branch = "cap";
+		reason = `${personalBests} PBs reaches the cap of ${pbCap}.`;
+	} else {
+		branch = "ease-out";
+		reason = `${personalBests} PBs is eased towards the cap of ${pbCap}.`;
+	}
+
+	return [
+		{
+			factor: "popularity",
+			key: "popularity.modifier",
+			label: "Popularity",
+			value: modifier.value,
+			branch: modifier.branch ?? branch,
+			reason: modifier.reason ?? reason,
+		},
+	];
+};
+
+/**
+ * Calculates the points a level is worth together with a step-by-step trace of how they were reached.
+ *
+ * - The result is identical to `calculateLevelPoints`
+ * - Every intermediate value is listed in the order it is calculated
+ * - Steps that hit a clamp, cap, fallback or NaN normalisation name that branch
+ */
+export const explainLevelPoints = (
+	input: CalculateLevelScore,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ExplainedLevelPointsResult => {
+	const result = calculateLevelPoints(input, profile);
+	const { topTimes, personalBests, totalRecords, levelRating } = input;
+	const wrTime = topTimes[0] ?? 0;
+
+	const trace: LevelPointsTraceStep[] = [
+		{
+			factor: "input",
+			key: "input.wrTime",
+			label: "WR time",
+			value: wrTime,
+			reason: topTimes.length > 0 ? "Fastest of the top times." : "There are no top times.",
+		},
+		{
+			factor: "input",
+			key: "input.personalBests",
+			label: "Personal bests",
+			value: personalBests,
+			reason: "Number of players with a time.",
+		},
+		{
+			factor: "input",
+			key: "input.totalRecords",
+			label: "Total records",
+			value: totalRecords,
+			reason: "Number of times across all players.",
+		},
+		{
+			factor: "input",
+			key: "input.levelRating",
+			label: "Level rating",
+			value: levelRating,
+			reason: "Community rating from 0 to 100.",
+		},
+	];
+
+	if (totalRecords === 0) {
+		trace.push({
+			factor: "points",
+			key: "points",
+			label: "Points",
+			value: result.points,
+			branch: "no-records",
+			reason: "The level has no records, so it is worth 0 points.",
+		});
+
+		return { ...result, trace };
+	}
+
+	trace.push(
+		...traceLength(wrTime, profile),
+		...traceCompetitiveness(wrTime, input, profile),
+		...traceRating(levelRating, profile),
+		...tracePopularity(personalBests, profile),
+		{
+			factor: "points",
+			key: "points",
+			label: "Points",
+			value: result.points,
+			reason: `round(${profile.basePoints} * WR factor * competitiveness * rating * popularity).`,
+		},
+	);
+
+	return { ...result, trace };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { createLevelExport, exportLevelJson, exportRecordsCsv } from "./exportLevel";
+import { importLeaderboardCsv, importLeaderboardJson } from "./importLeaderboard";
+import { createLevel, getLevelScoreInput, type Level } from "./level";
+import { createScoringProfile } from "./scoringProfile";
+
+const profile = createScoringProfile({ rating: { enabled: true }, basePoints: 8000 });
+
+const level: Level = createLevel("Round Trip", {
+	rating: 40,
+	metadata: { levelId: "42", workshopId: "123456", author: "Builder" },
+	players: Array.from({ length: 30 }, (_, index) => ({
+		id: `player-${index}`,
+		name: `Player ${index + 1}`,
+		records: [
+			{ time: 40 + index * 0.731, submittedAt: 1_700_000_000_000 + index },
+			{ time: 41.25 + index * 0.9, submittedAt: 1_700_000_100_000 + index },
+		],
+	})),
+});
+
+describe("exportLevel", () => {
+	it("restores the rating, metadata and profile of a JSON export", () => {
+		const result = calculateLevelPoints(getLevelScoreInput(level), profile);
+		const imported = importLeaderboardJson(exportLevelJson(createLevelExport(level, result, profile)));
+		if (!imported.success) {
+			throw new Error(imported.errors.join("\n"));
+		}
+
+		expect(imported.level).toEqual({ id: "42", name: "Round Trip", workshopId: "123456", author: "Builder", rating: 40 });
+		expect(imported.profile).toEqual(profile);
+		expect(imported.warnings).toEqual([]);
+
+		const restored = calculateLevelPoints(getLevelScoreInput({ players: imported.players, rating: imported.level.rating ?? 100 }), imported.profile);
+		expect(restored).toEqual(result);
+	});
+
+	it("restores every time of an All Times CSV export", () => {
+		const result = calculateLevelPoints(getLevelScoreInput(level), profile);
+		const imported = importLeaderboardCsv(exportRecordsCsv(createLevelExport(level, result, profile)));
+		if (!imported.success) {
+			throw new Error(imported.errors.join("\n"));
+		}
+
+		expect(imported.recordCount).toBe(60);
+		expect(imported.players.map((player) => player.records)).toEqual(level.players.map((player) => player.records));
+	});
+});
@@ -0,0 +1,180 @@
+import type { CalculateLevelPointsResult } from "./calculateLevelPoints";
+import { toCsv } from "./csv";
+import { formatTime } from "./formatTime";
+import type { LeaderboardRecord } from "./importLeaderboard";
+import type { Level } from "./level";
+import { playerTimes, rankPlayers } from "./player";
+import type { ScoringProfile } from "./scoringProfile";
+
+export interface LevelExport {
+	level: {
+		name: string;
+		rating: number;
+		levelId?: string;
+		workshopId?: string;
+		author?: string;
+	};
+	/** Every time of every player, in the format `importLeaderboardJson` reads. */
+	records: LeaderboardRecord[];
+	bestTimes: {
+		rank: number;
+		playerName: string;
+		time: number;
+		gapToWr: number;
+		timeCount: number;
+	}[];
+	result: CalculateLevelPointsResult;
+	profile: ScoringProfile;
+}
+
+/**
+ * Lists every time of every player as leaderboard records.
+ *
+ * - The first occurrence of each player's best time is flagged with `isBest`
+ */
+export const levelToRecords = (level: Level): LeaderboardRecord[] => {
+	return level.players.flatMap((player) => {
+		const times = playerTimes(player);
+		const bestIndex = times.indexOf(Math.min(...times));
+
+		return player.records.map(({ time, submittedAt }, index) => ({
+			playerName: player.name,
+			time,
+			isBest: index === bestIndex,
+			levelId: level.metadata.levelId,
+			levelName: level.name,
+			workshopId: level.metadata.workshopId,
+			submittedAt,
+		}));
+	});
+};
+
+/**
+ * Collects everything known about a level and its points into one export.
+ */
+export const createLevelExport = (
+	level: Level,
+	result: CalculateLevelPointsResult,
+	profile: ScoringProfile,
+): LevelExport => {
+	const ranked = rankPlayers(level.players);
+	const wrTime = ranked[0]?.bestTime ?? 0;
+
+	return {
+		level: {
+			name: level.name,
+			rating: level.rating,
+			...level.metadata,
+		},
+		records: levelToRecords(level),
+		bestTimes: ranked.map(({ player, rank, bestTime }) => ({
+			rank,
+			playerName: player.name,
+			time: bestTime,
+			gapToWr: bestTime - wrTime,
+			timeCount: player.records.length,
+		})),
+		result,
+		profile,
+	};
+};
+
+/**
+ * Exports a level as JSON that `importLeaderboardJson` reads back with its rating and scoring profile.
+ */
+export const exportLevelJson = (levelExport: LevelExport) => {
+	return JSON.stringify(levelExport, null, 2);
+};
+
+/**
+ * Exports every time as CSV that `importLeaderboardCsv` can read back.
+ */
+export const exportRecordsCsv = ({ records }: LevelExport) => {
+	return toCsv([
+		["playerName", "time", "isBest", "levelId", "levelName", "workshopId", "submittedAt"],
+		...records.map((record) => [
+			record.playerName,
+			record.time,
+			record.isBest,
+			record.levelId,
+			record.levelName,
+			record.workshopId,
+			record.submittedAt !== undefined ? new Date(record.submittedAt).toISOString() : undefined,
+		]),
+	]);
+};
+
+/**
+ * Exports the best time of every player as CSV, fastest first.
+ */
+export const exportBestTimesCsv = ({ bestTimes }: LevelExport) => {
+	return toCsv([
+		["rank", "playerName", "bestTime", "gapToWr", "timeCount"],
+		...bestTimes.map((best) => [best.rank, best.playerName, best.time, best.gapToWr, best.timeCount]),
+	]);
+};
+
+/**
+ * Exports the level points and every contribution as CSV.
+ */
+export const exportResultCsv = ({ level, result }: LevelExport) => {
+	return toCsv([
+		["level", "points", "length", "competitiveness", "rating", "popularity"],
+		[
+			level.name,
+			result.points,
+			result.contributions.length,
+			result.contributions.competitiveness,
+			result.contributions.rating,
+			result.contributions.popularity,
+		],
+	]);
+};
+
+/**
+ * Escapes text for use inside a Markdown table cell.
+ */
+const markdownCell = (text: string) => {
+	return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+};
+
+/**
+ * Exports a level as a Markdown report for balance discussions.
+ */
+export const exportLevelMarkdown = ({ level, records, bestTimes, result }: LevelExport) => {
+	const lines = [
+		`# ${level.name}`,
+		"",
+		`**Points: ${result.points}**`,
+		"",
+		"| Factor | Value |",
+		"| --- | ---: |",
+		`| WR Factor | ${result.contributions.length.toFixed(4)} |`,
+		`| Competitiveness | ${result.contributions.competitiveness.toFixed(4)} |`,
+		`| Rating | ${result.contributions.rating.toFixed(4)} |`,
+		`| Popularity | ${result.contributions.popularity.toFixed(4)} |`,
+		"",
+		`Rating: ${level.rating} · Players: ${bestTimes.length} · Records: ${records.length}`,
+		"",
+		"## Best Times",
+		"",
+		"| Rank | Player | Best Time | Gap to WR | Times |",
+		"| ---: | --- | ---: | ---: | ---: |",
+		...bestTimes.map((best) =>
+			`| ${best.rank} | ${markdownCell(best.playerName)} | ${formatTime(best.time)} | +${best.gapToWr.toFixed(3)}s | ${best.timeCount} |`),
+		"",
+		"## All Times",
+		"",
+	];
+
+	const timesByPlayer = new Map<string, number[]>();
+	for (const record of records) {
+		timesByPlayer.set(record.playerName, [...(timesByPlayer.get(record.playerName) ?? []), record.time]);
+	}
+
+	for (const [playerName, times] of timesByPlayer) {
+		lines.push(`- **${markdownCell(playerName)}**: ${times.map(formatTime).join(", ")}`);
+	}
+
+	return lines.join("\n") + "\n";
+};
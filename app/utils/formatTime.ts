@@ -0,0 +1,12 @@
+/**
+ * Formats a time in seconds as mm:ss:iii.
+ */
+export const formatTime = (timeInSeconds: number): string => {
+	const minutes = Math.floor(timeInSeconds / 60);
+	const seconds = Math.floor(timeInSeconds % 60);
+	const milliseconds = Math.floor((timeInSeconds % 1) * 1000);
+
+	return `${minutes.toString().padStart(2, "0")}:${seconds
+		.toString()
+		.padStart(2, "0")}:${milliseconds.toString().padStart(3, "0")}`;
+};
@@ -0,0 +1,61 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { levelInput } from "./__fixtures__/arbitraries";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import {
+	compareLevelPointsFormulas,
+	getLevelPointsFormula,
+	getLevelPointsFormulas,
+	registerLevelPointsFormula,
+} from "./formulaRegistry";
+import { DEFAULT_SCORING_PROFILE } from "./scoringProfile";
+
+const profile = DEFAULT_SCORING_PROFILE;
+
+const formula = (id: string) => {
+	const found = getLevelPointsFormula(id);
+	if (!found) {
+		throw new Error(`Formula ${id} isn't registered`);
+	}
+
+	return found;
+};
+
+describe("formulaRegistry", () => {
+	it("lists the registered formulas by version", () => {
+		expect(getLevelPointsFormulas().map((entry) => entry.id)).toEqual(["v1", "v2"]);
+	});
+
+	it("rejects a second formula with the same id", () => {
+		expect(() => registerLevelPointsFormula({ ...formula("v1") })).toThrow(/already registered/);
+	});
+
+	it("keeps v1 as calculateLevelPoints, which the golden fixtures pin", () => {
+		expect(formula("v1").calculate).toBe(calculateLevelPoints);
+	});
+
+	it("only changes competitiveness in v2, and never raises it", () => {
+		fc.assert(
+			fc.property(levelInput, (input) => {
+				const v1 = formula("v1").calculate(input, profile);
+				const v2 = formula("v2").calculate(input, profile);
+
+				expect(v2.contributions.length).toBe(v1.contributions.length);
+				expect(v2.contributions.rating).toBe(v1.contributions.rating);
+				expect(v2.contributions.popularity).toBe(v1.contributions.popularity);
+				expect(v2.contributions.competitiveness).toBeLessThanOrEqual(v1.contributions.competitiveness);
+			}),
+		);
+	});
+
+	it("reports deltas relative to the first formula", () => {
+		const topTimes = Array.from({ length: 50 }, (_, i) => 30 + i * 0.5);
+		const input = { topTimes, personalBests: 120, totalRecords: 600, levelRating: 100 };
+		const [baseline, compared] = compareLevelPointsFormulas(input, [formula("v1"), formula("v2")], profile);
+
+		expect(baseline.pointsDelta).toBe(0);
+		expect(compared.pointsDelta).toBe(compared.result.points - baseline.result.points);
+		expect(compared.pointsDelta).toBeLessThan(0);
+		expect(compared.contributionDeltas.length).toBe(0);
+	});
+});
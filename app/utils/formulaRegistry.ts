@@ -0,0 +1,144 @@
+import {
+	calculateLevelPoints,
+	clamp,
+	levelScoreCompetitivenessMultiplier,
+	type CalculateLevelPointsResult,
+	type CalculateLevelScore,
+	type LevelScoreContributions,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+export interface LevelPointsFormula {
+	/** Unique identifier, e.g. `v1`. */
+	id: string;
+	version: number;
+	name: string;
+	description: string;
+	calculate: (input: CalculateLevelScore, profile: ScoringProfile) => CalculateLevelPointsResult;
+}
+
+export interface LevelPointsFormulaComparison {
+	formula: LevelPointsFormula;
+	result: CalculateLevelPointsResult;
+	/** Difference in points compared to the first formula. */
+	pointsDelta: number;
+	/** Difference in every contribution compared to the first formula. */
+	contributionDeltas: LevelScoreContributions;
+}
+
+const formulas = new Map<string, LevelPointsFormula>();
+
+/**
+ * Adds a formula to the registry.
+ *
+ * - Throws if a formula with the same id is already registered
+ * - Formulas are frozen so they can't be swapped out once registered
+ * - The numbers a version produces are pinned by golden fixtures; a change to them needs a new version
+ */
+export const registerLevelPointsFormula = (formula: LevelPointsFormula) => {
+	if (formulas.has(formula.id)) {
+		throw new Error(`A level points formula with id "${formula.id}" is already registered`);
+	}
+
+	formulas.set(formula.id, Object.freeze({ ...formula }));
+};
+
+/**
+ * Returns every registered formula, ordered by version.
+ */
+export const getLevelPointsFormulas = (): LevelPointsFormula[] => {
+	return [...formulas.values()].sort((a, b) => a.version - b.version);
+};
+
+/**
+ * Returns the formula with the given id, or undefined if it isn't registered.
+ */
+export const getLevelPointsFormula = (id: string) => {
+	return formulas.get(id);
+};
+
+/**
+ * Runs the same level through several formulas.
+ *
+ * - The first formula is the baseline that every delta is relative to
+ * - Every formula uses the same scoring profile
+ */
+export const compareLevelPointsFormulas = (
+	input: CalculateLevelScore,
+	formulasToCompare: LevelPointsFormula[],
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): LevelPointsFormulaComparison[] => {
+	const results = formulasToCompare.map((formula) => ({
+		formula,
+		result: formula.calculate(input, profile),
+	}));
+
+	if (results.length === 0) {
+		return [];
+	}
+
+	const baseline = results[0].result;
+
+	return results.map(({ formula, result }) => ({
+		formula,
+		result,
+		pointsDelta: result.points - baseline.points,
+		contributionDeltas: {
+			length: result.contributions.length - baseline.contributions.length,
+			competitiveness: result.contributions.competitiveness - baseline.contributions.competitiveness,
+			rating: result.contributions.rating - baseline.contributions.rating,
+			popularity: result.contributions.popularity - baseline.contributions.popularity,
+		},
+	}));
+};
+
+/** How strongly a loose top 5 lowers the competitiveness modifier in v2. */
+const TIGHTNESS_WEIGHT = 0.45;
+
+/**
+ * Calculates the points a level is worth with the tightness score drafted in `levelScoreCompetitivenessMultiplier`.
+ *
+ * - Tightness is how far the average of the top 5 sits from the WR, relative to the WR
+ * - A looser top 5 lowers the competitiveness modifier before it is clamped to the profile's range
+ * - Every other modifier, and the fallback for levels with few top times, is the same as in v1
+ */
+const calculateLevelPointsWithTightness = (input: CalculateLevelScore, profile: ScoringProfile): CalculateLevelPointsResult => {
+	const v1 = calculateLevelPoints(input, profile);
+	const { topTimes, personalBests, totalRecords } = input;
+
+	if (totalRecords === 0 || topTimes.length <= profile.minimumPbs) {
+		return v1;
+	}
+
+	const wrTime = topTimes[0];
+	const top5 = topTimes.slice(0, 5);
+	const tightnessScore = (top5.reduce((sum, time) => sum + time, 0) / top5.length - wrTime) / wrTime;
+
+	const { weightedScore } = levelScoreCompetitivenessMultiplier(wrTime, topTimes, personalBests, totalRecords, profile);
+	const { min, max } = profile.competitiveness;
+	const clamped = clamp(1 + weightedScore - TIGHTNESS_WEIGHT * tightnessScore, min, max);
+	const competitiveness = Number.isNaN(clamped) ? 0 : clamped;
+
+	const { length, rating, popularity } = v1.contributions;
+
+	return {
+		points: Math.round(profile.basePoints * length * competitiveness * rating * popularity),
+		contributions: { length, competitiveness, rating, popularity },
+	};
+};
+
+registerLevelPointsFormula({
+	id: "v1",
+	version: 1,
+	name: "Length × competitiveness × rating × popularity",
+	description: "The formula used in-game: base points scaled by the WR length, competitiveness, rating and popularity modifiers.",
+	calculate: calculateLevelPoints,
+});
+
+registerLevelPointsFormula({
+	id: "v2",
+	version: 2,
+	name: "v1 with top 5 tightness",
+	description: "Draft formula: like v1, but competitiveness drops when the top 5 sit far behind the WR.",
+	calculate: calculateLevelPointsWithTightness,
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { calculateLevelPoints, type CalculateLevelScore } from "./calculateLevelPoints";
+import { goalSeek, goalSeekRegion } from "./goalSeek";
+import { DEFAULT_SCORING_PROFILE, createScoringProfile } from "./scoringProfile";
+
+const profile = DEFAULT_SCORING_PROFILE;
+const ratingProfile = createScoringProfile({ rating: { enabled: true } });
+
+const input: CalculateLevelScore = {
+	topTimes: Array.from({ length: 30 }, (_, i) => 12 + i * 0.2),
+	personalBests: 30,
+	totalRecords: 90,
+	levelRating: 60,
+};
+
+describe("goalSeek", () => {
+	it("finds the lowest WR time that reaches the target", () => {
+		const current = calculateLevelPoints(input, profile).points;
+		const result = goalSeek(input, "wrTime", current + 100, profile);
+		if (!result.success) {
+			throw new Error(result.reason);
+		}
+
+		expect(result.value).toBeGreaterThan(input.topTimes[0]);
+		expect(result.points).toBeGreaterThanOrEqual(current + 100);
+
+		const scale = (result.value * 0.99) / input.topTimes[0];
+		const slower = calculateLevelPoints({ ...input, topTimes: input.topTimes.map((time) => time * scale) }, profile);
+		expect(slower.points).toBeLessThan(current + 100);
+	});
+
+	it("solves for a whole number of personal bests", () => {
+		const current = calculateLevelPoints(input, profile).points;
+		const result = goalSeek(input, "personalBests", current + 50, profile);
+		if (!result.success) {
+			throw new Error(result.reason);
+		}
+
+		expect(Number.isInteger(result.value)).toBe(true);
+		expect(result.points).toBeGreaterThanOrEqual(current + 50);
+		expect(result.current).toEqual({ value: 30, points: current });
+	});
+
+	it("reports a target above the PB cap as unreachable with the closest points", () => {
+		const result = goalSeek(input, "personalBests", 100_000, profile);
+		if (result.success) {
+			throw new Error("The target should be out of reach");
+		}
+
+		expect(result.reason).toContain(`${profile.popularity.pbCap} PBs`);
+		expect(result.closest.value).toBe(profile.popularity.pbCap);
+		expect(result.closest.points).toBeLessThan(100_000);
+	});
+
+	it("reports that a disabled rating can't change the points", () => {
+		const result = goalSeek(input, "levelRating", calculateLevelPoints(input, profile).points + 1, profile);
+
+		expect(result.success).toBe(false);
+		expect(!result.success && result.reason).toBe("The rating is disabled in the scoring profile, so it doesn't change the points");
+	});
+
+	it("reports levels without records as unreachable", () => {
+		const result = goalSeek({ ...input, totalRecords: 0 }, "levelRating", 100, ratingProfile);
+
+		expect(result.success).toBe(false);
+		expect(!result.success && result.reason).toBe("Levels without records are worth 0 points");
+	});
+});
+
+describe("goalSeekRegion", () => {
+	it("only lowers the rating needed as the WR time grows", () => {
+		const target = calculateLevelPoints(input, ratingProfile).points;
+		const region = goalSeekRegion(input, "wrTime", "levelRating", target, ratingProfile, 10);
+		const reached = region.rows.flatMap((row) => (row.minimumY === null ? [] : [row.minimumY]));
+
+		expect(region.rows).toHaveLength(10);
+		expect(reached.length).toBeGreaterThan(0);
+		reached.slice(1).forEach((minimumY, index) => expect(minimumY).toBeLessThanOrEqual(reached[index] + 1e-6));
+	});
+});
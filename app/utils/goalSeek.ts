@@ -0,0 +1,304 @@
+import {
+	calculateLevelPoints,
+	levelScoreCompetitivenessFromScores,
+	levelScoreCompetitivenessMultiplier,
+	type CalculateLevelScore,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+/**
+ * An input the goal-seek solver can change to reach a target.
+ *
+ * - `wrTime` scales every top time, so only the level's length changes
+ * - `personalBests` keeps the number of records per PB, so only the popularity changes
+ * - `top50Spread` is the spread score: how much slower the top 50 average is than the top 10 average
+ */
+export type GoalSeekVariable = "wrTime" | "personalBests" | "levelRating" | "top50Spread";
+
+export const GOAL_SEEK_VARIABLES: GoalSeekVariable[] = ["wrTime", "personalBests", "levelRating", "top50Spread"];
+
+interface GoalSeekRange {
+	min: number;
+	max: number;
+	integer: boolean;
+}
+
+export type GoalSeekResult = {
+	variable: GoalSeekVariable;
+	label: string;
+	target: number;
+	current: { value: number; points: number };
+} & (
+	| { success: true; value: number; points: number }
+	| { success: false; reason: string; closest: { value: number; points: number } }
+);
+
+export interface GoalSeekRegionRow {
+	x: number;
+	/** Lowest value of the second variable that reaches the target, or null if none does. */
+	minimumY: number | null;
+}
+
+export interface GoalSeekRegion {
+	target: number;
+	x: { variable: GoalSeekVariable; label: string; range: GoalSeekRange };
+	y: { variable: GoalSeekVariable; label: string; range: GoalSeekRange };
+	rows: GoalSeekRegionRow[];
+}
+
+/**
+ * The inputs of a level plus a spread score that replaces the one measured from its top times.
+ */
+interface GoalSeekScenario {
+	input: CalculateLevelScore;
+	spreadScore?: number;
+}
+
+const BISECTION_STEPS = 60;
+const MAX_SPREAD = 0.99;
+
+/**
+ * Names a variable in the solver's options and in the reasons a target is out of reach.
+ */
+export const goalSeekVariableLabel = (variable: GoalSeekVariable) => {
+	switch (variable) {
+		case "wrTime":
+			return "WR time";
+		case "personalBests":
+			return "Personal bests";
+		case "levelRating":
+			return "Level rating";
+		case "top50Spread":
+			return "Top 50 spread";
+	}
+};
+
+const scenarioPoints = ({ input, spreadScore }: GoalSeekScenario, profile: ScoringProfile) => {
+	const result = calculateLevelPoints(input, profile);
+
+	if (spreadScore === undefined || input.totalRecords === 0 || input.topTimes.length <= profile.minimumPbs) {
+		return result.points;
+	}
+
+	const { pbRatio } = levelScoreCompetitivenessMultiplier(input.topTimes[0], input.topTimes, input.personalBests, input.totalRecords, profile);
+	const { modifier } = levelScoreCompetitivenessFromScores(spreadScore, pbRatio, profile);
+	const { length, rating, popularity } = result.contributions;
+
+	return Math.round(profile.basePoints * length * modifier * rating * popularity);
+};
+
+const readVariable = ({ input, spreadScore }: GoalSeekScenario, variable: GoalSeekVariable, profile: ScoringProfile) => {
+	switch (variable) {
+		case "wrTime":
+			return input.topTimes[0] ?? 0;
+		case "personalBests":
+			return input.personalBests;
+		case "levelRating":
+			return input.levelRating;
+		case "top50Spread":
+			return spreadScore ?? levelScoreCompetitivenessMultiplier(input.topTimes[0], input.topTimes, input.personalBests, input.totalRecords, profile).spreadScore;
+	}
+};
+
+const writeVariable = (scenario: GoalSeekScenario, variable: GoalSeekVariable, value: number): GoalSeekScenario => {
+	const { input } = scenario;
+
+	switch (variable) {
+		case "wrTime": {
+			const scale = value / (input.topTimes[0] || 1);
+			return { ...scenario, input: { ...input, topTimes: input.topTimes.map((time) => time * scale) } };
+		}
+		case "personalBests": {
+			const recordsPerPb = input.personalBests > 0 ? input.totalRecords / input.personalBests : 1;
+			return {
+				...scenario,
+				input: { ...input, personalBests: value, totalRecords: Math.max(value, Math.round(value * recordsPerPb)) },
+			};
+		}
+		case "levelRating":
+			return { ...scenario, input: { ...input, levelRating: value } };
+		case "top50Spread":
+			return { ...scenario, spreadScore: value };
+	}
+};
+
+/**
+ * Returns the range a variable is searched in.
+ *
+ * - The WR time goes up to where the length factor stops growing
+ * - PBs can't drop below the number of top times and go up to the popularity cap
+ */
+const variableRange = (scenario: GoalSeekScenario, variable: GoalSeekVariable, profile: ScoringProfile): GoalSeekRange => {
+	const value = readVariable(scenario, variable, profile);
+
+	switch (variable) {
+		case "wrTime":
+			return { min: 0.001, max: Math.max(value, profile.length.endSeconds), integer: false };
+		case "personalBests":
+			return { min: Math.max(1, scenario.input.topTimes.length), max: Math.max(value, profile.popularity.pbCap), integer: true };
+		case "levelRating":
+			return { min: 0, max: 100, integer: false };
+		case "top50Spread":
+			return { min: 0, max: MAX_SPREAD, integer: false };
+	}
+};
+
+/**
+ * Explains why a variable can't raise the points any further.
+ */
+const ceilingReason = (scenario: GoalSeekScenario, variable: GoalSeekVariable, profile: ScoringProfile, points: number) => {
+	switch (variable) {
+		case "wrTime":
+			return `The WR factor is at its maximum from ${profile.length.endSeconds}s; a longer level stays at ${points} points`;
+		case "personalBests":
+			return `Popularity is capped at ${profile.popularity.pbCap} PBs; more PBs stay at ${points} points`;
+		case "levelRating":
+			return profile.rating.enabled
+				? `Even a rating of 100 only reaches ${points} points`
+				: "The rating is disabled in the scoring profile, so it doesn't change the points";
+		case "top50Spread":
+			return scenario.input.topTimes.length <= profile.minimumPbs
+				? `The competitiveness factor needs more than ${profile.minimumPbs} top times`
+				: `Competitiveness is capped at ${profile.competitiveness.max}; the widest spread only reaches ${points} points`;
+	}
+};
+
+/**
+ * Finds the lowest value in a range that reaches the target, assuming the points never drop as the value grows.
+ */
+const bisect = (
+	scenario: GoalSeekScenario,
+	variable: GoalSeekVariable,
+	target: number,
+	{ min, max, integer }: GoalSeekRange,
+	profile: ScoringProfile,
+) => {
+	const pointsAt = (value: number) => scenarioPoints(writeVariable(scenario, variable, value), profile);
+	let low = min;
+	let high = max;
+
+	if (integer) {
+		while (low < high) {
+			const middle = Math.floor((low + high) / 2);
+			if (pointsAt(middle) >= target) {
+				high = middle;
+			} else {
+				low = middle + 1;
+			}
+		}
+	} else {
+		for (let i = 0; i < BISECTION_STEPS; i++) {
+			const middle = (low + high) / 2;
+			if (pointsAt(middle) >= target) {
+				high = middle;
+			} else {
+				low = middle;
+			}
+		}
+	}
+
+	return { value: high, points: pointsAt(high) };
+};
+
+const seek = (
+	scenario: GoalSeekScenario,
+	variable: GoalSeekVariable,
+	target: number,
+	profile: ScoringProfile,
+) => {
+	const range = variableRange(scenario, variable, profile);
+
+	if (scenario.input.totalRecords === 0) {
+		return { success: false as const, reason: "Levels without records are worth 0 points", closest: { value: range.min, points: 0 } };
+	}
+
+	const lowest = scenarioPoints(writeVariable(scenario, variable, range.min), profile);
+	const highest = scenarioPoints(writeVariable(scenario, variable, range.max), profile);
+
+	if (highest < target) {
+		return {
+			success: false as const,
+			reason: ceilingReason(scenario, variable, profile, highest),
+			closest: { value: range.max, points: highest },
+		};
+	}
+
+	if (lowest >= target) {
+		// Already reached at the lowest value: only report it as a solution if the target is hit exactly
+		return lowest === target
+			? { success: true as const, value: range.min, points: lowest }
+			: {
+				success: false as const,
+				reason: `${goalSeekVariableLabel(variable)} can't bring the level below ${lowest} points`,
+				closest: { value: range.min, points: lowest },
+			};
+	}
+
+	return { success: true as const, ...bisect(scenario, variable, target, range, profile) };
+};
+
+/**
+ * Solves for the value of one input that makes a level worth the target points.
+ *
+ * - Every other input stays at its current value
+ * - Returns the lowest value that reaches the target, as points never drop when an input grows
+ * - Reports why a target is out of reach, e.g. because of the PB cap, with the closest achievable points
+ */
+export const goalSeek = (
+	input: CalculateLevelScore,
+	variable: GoalSeekVariable,
+	target: number,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): GoalSeekResult => {
+	const scenario = { input };
+
+	return {
+		variable,
+		label: goalSeekVariableLabel(variable),
+		target,
+		current: {
+			value: readVariable(scenario, variable, profile),
+			points: calculateLevelPoints(input, profile).points,
+		},
+		...seek(scenario, variable, target, profile),
+	};
+};
+
+/**
+ * Maps the combinations of two inputs that make a level worth at least the target points.
+ *
+ * - Samples the first variable across its range and solves the second one for every sample
+ * - Everything above `minimumY` reaches the target, so the rows trace the edge of the feasible region
+ */
+export const goalSeekRegion = (
+	input: CalculateLevelScore,
+	xVariable: GoalSeekVariable,
+	yVariable: GoalSeekVariable,
+	target: number,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+	samples = 20,
+): GoalSeekRegion => {
+	const scenario = { input };
+	const xRange = variableRange(scenario, xVariable, profile);
+	const yRange = variableRange(scenario, yVariable, profile);
+	const count = Math.max(2, samples);
+
+	const xValues = Array.from({ length: count }, (_, i) => {
+		const value = xRange.min + ((xRange.max - xRange.min) * i) / (count - 1);
+		return xRange.integer ? Math.round(value) : value;
+	});
+
+	const rows = [...new Set(xValues)].map((x) => {
+		const result = seek(writeVariable(scenario, xVariable, x), yVariable, target, profile);
+		const reached = result.success || result.closest.points >= target;
+
+		return { x, minimumY: reached ? (result.success ? result.value : result.closest.value) : null };
+	});
+
+	return {
+		target,
+		x: { variable: xVariable, label: goalSeekVariableLabel(xVariable), range: xRange },
+		y: { variable: yVariable, label: goalSeekVariableLabel(yVariable), range: yRange },
+		rows,
+	};
+};
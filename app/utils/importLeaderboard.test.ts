@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { importLeaderboardCsv, importLeaderboardFile, importLeaderboardJson } from "./importLeaderboard";
+
+const csv = [
+	"playerName,time,isBest,levelId,levelName,submittedAt,notes",
+	"Ann,31.5,false,7,Canyon,2026-01-01T00:00:00.000Z,",
+	"Ann,30.25,true,7,Canyon,1767225600000,retry",
+	"\"Bob, Jr.\",33,true,7,Canyon,,",
+].join("\n");
+
+describe("importLeaderboardCsv", () => {
+	it("groups the records by player and reads every column", () => {
+		const imported = importLeaderboardCsv(csv);
+		if (!imported.success) {
+			throw new Error(imported.errors.join("\n"));
+		}
+
+		expect(imported.recordCount).toBe(3);
+		expect(imported.level).toEqual({ id: "7", name: "Canyon", workshopId: undefined });
+		expect(imported.players.map((player) => player.name)).toEqual(["Ann", "Bob, Jr."]);
+		expect(imported.players[0].records).toEqual([
+			{ time: 31.5, submittedAt: Date.UTC(2026, 0, 1) },
+			{ time: 30.25, submittedAt: 1767225600000 },
+		]);
+		expect(imported.warnings).toEqual(["Unknown CSV columns are ignored: notes"]);
+	});
+
+	it("reports every invalid row with its row number", () => {
+		const imported = importLeaderboardCsv("playerName,time,submittedAt\nAnn,-1,\n,30,\nBob,31,yesterday");
+
+		expect(imported).toEqual({
+			success: false,
+			errors: [
+				"row 2.time: Time must be a positive number of seconds",
+				"row 3.playerName: Required",
+				"row 4.submittedAt: Submitted at must be a date or a timestamp in milliseconds",
+			],
+		});
+	});
+
+	it("requires the player name and time columns", () => {
+		expect(importLeaderboardCsv("name,seconds\nAnn,30")).toEqual({
+			success: false,
+			errors: ["Missing required CSV columns: playerName, time"],
+		});
+	});
+
+	it("warns about records marked isBest that aren't the player's fastest time", () => {
+		const imported = importLeaderboardCsv("playerName,time,isBest\nAnn,31,true\nAnn,30,false");
+
+		expect(imported.success && imported.warnings).toEqual([
+			"1 records are marked isBest but aren't their player's fastest time; the fastest time is used instead",
+		]);
+	});
+});
+
+describe("importLeaderboardJson", () => {
+	it("accepts a bare list of records", () => {
+		const imported = importLeaderboardJson(JSON.stringify([
+			{ playerName: "Ann", time: 30, levelId: 7, workshopId: 123 },
+			{ playerName: "Bob", time: 31 },
+		]));
+
+		expect(imported.success && imported.players.map((player) => player.records.map((record) => record.time))).toEqual([[30], [31]]);
+		expect(imported.success && imported.level).toMatchObject({ id: "7", workshopId: "123" });
+	});
+
+	it("imports the records of a file whose level details aren't a tracker level export", () => {
+		const imported = importLeaderboardJson(JSON.stringify({
+			level: "Canyon",
+			profile: { basePoints: "many" },
+			records: [{ playerName: "Ann", time: 30, levelName: "Canyon" }],
+		}));
+		if (!imported.success) {
+			throw new Error(imported.errors.join("\n"));
+		}
+
+		expect(imported.level.name).toBe("Canyon");
+		expect(imported.profile).toBeUndefined();
+		expect(imported.warnings).toHaveLength(1);
+		expect(imported.warnings[0]).toMatch(/^The level details and scoring profile are ignored: level: Expected object/);
+	});
+
+	it("rejects records from more than one level", () => {
+		const imported = importLeaderboardJson(JSON.stringify({
+			records: [{ playerName: "Ann", time: 30, levelId: "1" }, { playerName: "Bob", time: 31, levelId: "2" }],
+		}));
+
+		expect(imported.success).toBe(false);
+		expect(!imported.success && imported.errors[0]).toContain("2 levels (1, 2)");
+	});
+
+	it("reports invalid JSON and invalid records", () => {
+		expect(importLeaderboardJson("{").success).toBe(false);
+		expect(importLeaderboardJson(JSON.stringify({ records: [] }))).toEqual({
+			success: false,
+			errors: ["The export does not contain any records"],
+		});
+		expect(importLeaderboardJson(JSON.stringify([{ playerName: "Ann", time: "fast" }])).success).toBe(false);
+	});
+});
+
+describe("importLeaderboardFile", () => {
+	it("picks the format from the file name", () => {
+		expect(importLeaderboardFile("times.CSV", csv).success).toBe(true);
+		expect(importLeaderboardFile("times.json", csv).success).toBe(false);
+	});
+});
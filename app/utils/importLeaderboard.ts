@@ -0,0 +1,279 @@
+import { z } from "zod";
+import { parseCsv } from "./csv";
+import type { Player } from "./player";
+import { scoringProfileSchema, type ScoringProfile } from "./scoringProfile";
+
+const idSchema = z.union([z.string(), z.number()]).transform((value) => value.toString());
+
+/**
+ * A moment in time as milliseconds since the Unix epoch or as a date string, read as milliseconds.
+ */
+const timestampSchema = z.union([
+	z.number().finite(),
+	z.string().transform((value, context) => {
+		const timestamp = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value);
+		if (Number.isNaN(timestamp)) {
+			context.addIssue({ code: z.ZodIssueCode.custom, message: "Submitted at must be a date or a timestamp in milliseconds" });
+			return z.NEVER;
+		}
+		return timestamp;
+	}),
+]);
+
+/**
+ * A single record as it appears in a saved leaderboard export.
+ */
+export const leaderboardRecordSchema = z.object({
+	playerName: z.string().trim().min(1, "Player name is required"),
+	time: z.number().finite().positive("Time must be a positive number of seconds"),
+	isBest: z.boolean().optional(),
+	levelId: idSchema.optional(),
+	levelName: z.string().optional(),
+	workshopId: idSchema.optional(),
+	submittedAt: timestampSchema.optional(),
+});
+
+/**
+ * A saved leaderboard export: either a bare list of records or an object wrapping them.
+ */
+export const leaderboardExportSchema = z.union([
+	z.array(leaderboardRecordSchema),
+	z.object({ records: z.array(leaderboardRecordSchema) }).transform(({ records }) => records),
+]);
+
+/**
+ * What a level export created by the tracker holds next to its records, see `createLevelExport`.
+ */
+const levelExportDetailsSchema = z.object({
+	level: z.object({
+		name: z.string().optional(),
+		rating: z.number().finite().optional(),
+		levelId: idSchema.optional(),
+		workshopId: idSchema.optional(),
+		author: z.string().optional(),
+	}).optional(),
+	profile: scoringProfileSchema.optional(),
+});
+
+export type LeaderboardRecord = z.infer<typeof leaderboardRecordSchema>;
+
+export interface LeaderboardLevel {
+	id?: string;
+	name?: string;
+	workshopId?: string;
+	author?: string;
+	/** Only known for level exports created by the tracker. */
+	rating?: number;
+}
+
+export type ImportLeaderboardResult =
+	| {
+		success: true;
+		players: Player[];
+		level: LeaderboardLevel;
+		/** The scoring profile a level export was created with, if any. */
+		profile?: ScoringProfile;
+		recordCount: number;
+		warnings: string[];
+	}
+	| { success: false; errors: string[] };
+
+/**
+ * Formats zod issues as readable messages that include where the issue was found.
+ */
+export const formatIssues = (error: z.ZodError, prefix = ""): string[] => {
+	return error.issues.map((issue) => {
+		const path = [prefix, ...issue.path].filter((part) => part !== "").join(".");
+		return path ? `${path}: ${issue.message}` : issue.message;
+	});
+};
+
+/**
+ * Groups validated records into players, one player per distinct name.
+ *
+ * - Fails if the records belong to more than one level
+ * - Records without a submitted-at time are treated as submitted at the moment of the import
+ * - PBs are always each player's fastest time; records wrongly marked `isBest` are reported as warnings
+ */
+export const recordsToPlayers = (records: LeaderboardRecord[]): ImportLeaderboardResult => {
+	if (records.length === 0) {
+		return { success: false, errors: ["The export does not contain any records"] };
+	}
+
+	const levelIds = new Set(records.map((record) => record.levelId).filter((id) => id !== undefined));
+	if (levelIds.size > 1) {
+		return {
+			success: false,
+			errors: [`The export contains records from ${levelIds.size} levels (${[...levelIds].join(", ")}); import one level at a time`],
+		};
+	}
+
+	const importedAt = Date.now();
+	const idPrefix = importedAt.toString();
+	const players = new Map<string, Player>();
+
+	for (const record of records) {
+		const player = players.get(record.playerName);
+		const playerRecord = { time: record.time, submittedAt: record.submittedAt ?? importedAt };
+
+		if (player) {
+			player.records.push(playerRecord);
+		} else {
+			players.set(record.playerName, {
+				id: `${idPrefix}-${players.size}`,
+				name: record.playerName,
+				records: [playerRecord],
+			});
+		}
+	}
+
+	const first = records.find((record) => record.levelId !== undefined) ?? records[0];
+	const warnings: string[] = [];
+
+	// PBs are taken from each player's fastest time, so `isBest` only serves as a check
+	const misflagged = records.filter((record) => {
+		const times = players.get(record.playerName)?.records.map((entry) => entry.time) ?? [];
+		return record.isBest === true && record.time !== Math.min(...times);
+	});
+	if (misflagged.length > 0) {
+		warnings.push(`${misflagged.length} records are marked isBest but aren't their player's fastest time; the fastest time is used instead`);
+	}
+
+	return {
+		success: true,
+		players: [...players.values()],
+		level: {
+			id: first.levelId,
+			name: records.find((record) => record.levelName)?.levelName,
+			workshopId: records.find((record) => record.workshopId)?.workshopId,
+		},
+		recordCount: records.length,
+		warnings,
+	};
+};
+
+/**
+ * Imports a saved JSON leaderboard export.
+ *
+ * - Accepts a list of records or an object with a `records` list
+ * - Every record is validated; all problems are reported at once
+ * - Level exports created by the tracker also restore the level's name, rating and metadata and the scoring profile
+ * - Level details or a profile in a different shape are ignored with a warning
+ */
+export const importLeaderboardJson = (text: string): ImportLeaderboardResult => {
+	let json: unknown;
+
+	try {
+		json = JSON.parse(text);
+	} catch (error) {
+		return { success: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+	}
+
+	const parsed = leaderboardExportSchema.safeParse(json);
+	if (!parsed.success) {
+		return { success: false, errors: formatIssues(parsed.error) };
+	}
+
+	const imported = recordsToPlayers(parsed.data);
+	if (!imported.success) {
+		return imported;
+	}
+
+	// Other tools may use the same keys for something else, so their files still import as plain records
+	const details = levelExportDetailsSchema.safeParse(Array.isArray(json) ? {} : json);
+	if (!details.success) {
+		return {
+			...imported,
+			warnings: [...imported.warnings, `The level details and scoring profile are ignored: ${formatIssues(details.error).join("; ")}`],
+		};
+	}
+
+	const { level, profile } = details.data;
+
+	return {
+		...imported,
+		level: {
+			id: level?.levelId ?? imported.level.id,
+			name: level?.name ?? imported.level.name,
+			workshopId: level?.workshopId ?? imported.level.workshopId,
+			author: level?.author,
+			rating: level?.rating,
+		},
+		profile,
+	};
+};
+
+const CSV_COLUMNS = ["playerName", "time", "isBest", "levelId", "levelName", "workshopId", "submittedAt"] as const;
+
+/**
+ * Imports a leaderboard from CSV.
+ *
+ * - The first row must be a header naming the columns; `playerName` and `time` are required
+ * - Optional columns are `isBest` (true/false), `levelId`, `levelName`, `workshopId` and `submittedAt`
+ * - Unknown columns are ignored and named in the warnings
+ */
+export const importLeaderboardCsv = (text: string): ImportLeaderboardResult => {
+	const [header, ...rows] = parseCsv(text);
+
+	if (!header) {
+		return { success: false, errors: ["The CSV file is empty"] };
+	}
+
+	const columns = header.map((column) => column.trim());
+	const missing = ["playerName", "time"].filter((column) => !columns.includes(column));
+	if (missing.length > 0) {
+		return { success: false, errors: [`Missing required CSV columns: ${missing.join(", ")}`] };
+	}
+
+	const errors: string[] = [];
+	const records: LeaderboardRecord[] = [];
+
+	rows.forEach((row, index) => {
+		const raw: Record<string, unknown> = {};
+
+		for (const column of CSV_COLUMNS) {
+			const columnIndex = columns.indexOf(column);
+			const value = columnIndex >= 0 ? row[columnIndex]?.trim() : undefined;
+
+			if (value === undefined || value === "") {
+				continue;
+			}
+
+			if (column === "time") {
+				raw.time = Number(value);
+			} else if (column === "isBest") {
+				raw.isBest = value.toLowerCase() === "true";
+			} else {
+				raw[column] = value;
+			}
+		}
+
+		const parsed = leaderboardRecordSchema.safeParse(raw);
+		if (parsed.success) {
+			records.push(parsed.data);
+		} else {
+			// Row numbers are 1-based and include the header row
+			errors.push(...formatIssues(parsed.error, `row ${index + 2}`));
+		}
+	});
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	const imported = recordsToPlayers(records);
+	const unknown = columns.filter((column) => column !== "" && !(CSV_COLUMNS as readonly string[]).includes(column));
+
+	return imported.success && unknown.length > 0
+		? { ...imported, warnings: [...imported.warnings, `Unknown CSV columns are ignored: ${unknown.join(", ")}`] }
+		: imported;
+};
+
+/**
+ * Imports a leaderboard file, picking the format from its name.
+ */
+export const importLeaderboardFile = (fileName: string, text: string): ImportLeaderboardResult => {
+	return fileName.toLowerCase().endsWith(".csv")
+		? importLeaderboardCsv(text)
+		: importLeaderboardJson(text);
+};
@@ -0,0 +1,54 @@
+import type { CalculateLevelScore } from "./calculateLevelPoints";
+import { EMPTY_RATING_VOTES, type RatingVoteCounts } from "./levelRatingVotes";
+import { rankPlayers, type Player } from "./player";
+
+export interface LevelMetadata {
+	/** Id of the level in the leaderboard data it was imported from. */
+	levelId?: string;
+	workshopId?: string;
+	author?: string;
+}
+
+export interface Level {
+	id: string;
+	name: string;
+	players: Player[];
+	/** Community rating from 0 to 100. */
+	rating: number;
+	/** Simulated chat votes the rating can be derived from. */
+	votes: RatingVoteCounts;
+	metadata: LevelMetadata;
+}
+
+/**
+ * Creates an empty level with a neutral-to-positive default rating of 100.
+ */
+export const createLevel = (name: string, overrides: Partial<Omit<Level, "id">> = {}): Level => {
+	return {
+		id: Date.now().toString(),
+		name,
+		players: [],
+		rating: 100,
+		votes: EMPTY_RATING_VOTES,
+		metadata: {},
+		...overrides,
+	};
+};
+
+/**
+ * Aggregates a level's players into the input expected by `calculateLevelPoints`.
+ *
+ * - Top times are the best time of each player, fastest first, up to 50
+ * - Every player with at least one time counts as one personal best
+ * - Every time of every player counts as a record
+ */
+export const getLevelScoreInput = (level: Pick<Level, "players" | "rating">): CalculateLevelScore => {
+	const ranked = rankPlayers(level.players);
+
+	return {
+		topTimes: ranked.slice(0, 50).map((entry) => entry.bestTime),
+		personalBests: ranked.length,
+		totalRecords: level.players.reduce((sum, player) => sum + player.records.length, 0),
+		levelRating: level.rating,
+	};
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import {
+	parseLevelPointsBatchRequest,
+	parseLevelPointsRequest,
+	scoreLevelPointsRequest,
+} from "./levelPointsRequest";
+import { DEFAULT_SCORING_PROFILE, createScoringProfile } from "./scoringProfile";
+
+const input = {
+	topTimes: Array.from({ length: 10 }, (_, i) => 30 + i),
+	personalBests: 40,
+	totalRecords: 120,
+	levelRating: 80,
+};
+
+const records = [
+	{ playerName: "Ann", time: 31, levelName: "Canyon" },
+	{ playerName: "Ann", time: 30 },
+	{ playerName: "Bob", time: 32 },
+];
+
+describe("parseLevelPointsRequest", () => {
+	it("reads pre-aggregated inputs with the default profile", () => {
+		const parsed = parseLevelPointsRequest({ name: "Canyon", ...input });
+
+		expect(parsed).toEqual({
+			success: true,
+			request: { profile: DEFAULT_SCORING_PROFILE, trace: false, level: { name: "Canyon", input, warnings: [] } },
+		});
+	});
+
+	it("aggregates leaderboard records like the tracker", () => {
+		const parsed = parseLevelPointsRequest({ records, levelRating: 60 });
+		if (!parsed.success) {
+			throw new Error(parsed.errors.join("\n"));
+		}
+
+		expect(parsed.request.level.name).toBe("Canyon");
+		expect(parsed.request.level.input).toEqual({ topTimes: [30, 32], personalBests: 2, totalRecords: 3, levelRating: 60 });
+		expect(parsed.request.level.warnings.map((issue) => issue.code)).toEqual(["too-few-pbs"]);
+	});
+
+	it("reports errors for the shape picked by the presence of records", () => {
+		expect(parseLevelPointsRequest({ records: [{ playerName: "Ann" }], topTimes: "fast" })).toEqual({
+			success: false,
+			errors: ["records.0.time: Required"],
+		});
+		expect(parseLevelPointsRequest({ topTimes: [30] })).toEqual({
+			success: false,
+			errors: ["personalBests: Required", "totalRecords: Required", "levelRating: Required"],
+		});
+	});
+
+	it("applies profile overrides and rejects unknown profile keys", () => {
+		const parsed = parseLevelPointsRequest({ ...input, profile: { basePoints: 5000, rating: { enabled: true } } });
+
+		expect(parsed.success && parsed.request.profile).toEqual(createScoringProfile({ basePoints: 5000, rating: { enabled: true } }));
+		expect(parseLevelPointsRequest({ ...input, profile: { base: 5000 } })).toEqual({
+			success: false,
+			errors: ["profile: Unrecognized key(s) in object: 'base'"],
+		});
+	});
+
+	it("rejects inputs that fail the level validation", () => {
+		expect(parseLevelPointsRequest({ ...input, topTimes: [31, 30] })).toEqual({
+			success: false,
+			errors: ["topTimes.1: Top times must be sorted from fastest to slowest; time 2 is faster than time 1"],
+		});
+	});
+});
+
+describe("parseLevelPointsBatchRequest", () => {
+	it("reports the problems of every level, prefixed with its index", () => {
+		const parsed = parseLevelPointsBatchRequest({
+			levels: [input, { ...input, personalBests: 200 }, { records: [] }],
+		});
+
+		expect(parsed).toEqual({
+			success: false,
+			errors: [
+				"levels.1.personalBests: There are more personal bests (200) than records (120)",
+				"levels.2: The export does not contain any records",
+			],
+		});
+	});
+
+	it("shares the profile and trace flag between every level", () => {
+		const parsed = parseLevelPointsBatchRequest({ levels: [input, { records }], trace: true, profile: { basePoints: 100 } });
+		if (!parsed.success) {
+			throw new Error(parsed.errors.join("\n"));
+		}
+
+		expect(parsed.request.levels).toHaveLength(2);
+		expect(parsed.request.trace).toBe(true);
+		expect(parsed.request.profile.basePoints).toBe(100);
+	});
+
+	it("accepts between 1 and 100 levels", () => {
+		expect(parseLevelPointsBatchRequest({ levels: [] })).toEqual({ success: false, errors: ["levels: At least one level is required"] });
+		expect(parseLevelPointsBatchRequest({ levels: Array(101).fill(input) })).toEqual({
+			success: false,
+			errors: ["levels: At most 100 levels per request"],
+		});
+		expect(parseLevelPointsBatchRequest({ levels: Array(100).fill(input) }).success).toBe(true);
+	});
+});
+
+describe("scoreLevelPointsRequest", () => {
+	it("only includes the trace when it was asked for", () => {
+		const level = { name: "Canyon", input, warnings: [] };
+		const result = calculateLevelPoints(input);
+
+		expect(scoreLevelPointsRequest(level, { profile: DEFAULT_SCORING_PROFILE, trace: false })).toEqual({ name: "Canyon", ...result });
+
+		const traced = scoreLevelPointsRequest(level, { profile: DEFAULT_SCORING_PROFILE, trace: true });
+		expect(traced).toMatchObject({ name: "Canyon", ...result });
+		expect(traced.trace?.at(-1)?.value).toBe(result.points);
+	});
+
+	it("includes the validation warnings when there are any", () => {
+		const parsed = parseLevelPointsRequest({ records });
+		if (!parsed.success) {
+			throw new Error(parsed.errors.join("\n"));
+		}
+
+		const response = scoreLevelPointsRequest(parsed.request.level, parsed.request);
+		expect(response.warnings?.map((issue) => issue.code)).toEqual(["too-few-pbs"]);
+		expect(response.trace).toBeUndefined();
+	});
+});
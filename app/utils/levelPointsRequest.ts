@@ -0,0 +1,212 @@
+import { z } from "zod";
+import { calculateLevelPoints, type CalculateLevelPointsResult, type CalculateLevelScore } from "./calculateLevelPoints";
+import { explainLevelPoints, type LevelPointsTraceStep } from "./explainLevelPoints";
+import { formatIssues, leaderboardRecordSchema, recordsToPlayers } from "./importLeaderboard";
+import { getLevelScoreInput } from "./level";
+import { createScoringProfile, scoringProfileOverridesSchema, type ScoringProfile } from "./scoringProfile";
+import { validateLevelScore, type LevelScoreIssue } from "./validateLevelScore";
+
+/**
+ * The pre-aggregated inputs of `calculateLevelPoints`.
+ */
+export const levelScoreInputSchema = z.object({
+	topTimes: z.array(z.number().finite().positive("Times must be positive numbers of seconds")),
+	personalBests: z.number().int().nonnegative(),
+	totalRecords: z.number().int().nonnegative(),
+	levelRating: z.number().finite(),
+}) satisfies z.ZodType<CalculateLevelScore>;
+
+/**
+ * Raw leaderboard records, aggregated the same way as the tracker does.
+ */
+const leaderboardInputSchema = z.object({
+	records: z.array(leaderboardRecordSchema),
+	levelRating: z.number().finite().default(100),
+});
+
+const requestOptionsSchema = z.object({
+	profile: scoringProfileOverridesSchema.optional(),
+	trace: z.boolean().default(false),
+});
+
+const batchRequestSchema = requestOptionsSchema.extend({
+	levels: z.array(z.unknown()).min(1, "At least one level is required").max(100, "At most 100 levels per request"),
+});
+
+export interface LevelPointsRequestOptions {
+	profile: ScoringProfile;
+	trace: boolean;
+}
+
+/**
+ * A single level as sent in a request; `name` is echoed back to identify the level in batch responses.
+ */
+export interface LevelPointsRequestLevel {
+	name?: string;
+	input: CalculateLevelScore;
+	warnings: LevelScoreIssue[];
+}
+
+export interface LevelPointsResponse extends CalculateLevelPointsResult {
+	name?: string;
+	warnings?: LevelScoreIssue[];
+	trace?: LevelPointsTraceStep[];
+}
+
+export type ParseLevelPointsRequestResult<T> =
+	| { success: true; request: T }
+	| { success: false; errors: string[] };
+
+/**
+ * Checks parsed inputs with the strict level validation, keeping its warnings with the level.
+ */
+const validateLevel = (
+	name: string | undefined,
+	input: CalculateLevelScore,
+	profile: ScoringProfile,
+	prefix: string,
+): ParseLevelPointsRequestResult<LevelPointsRequestLevel> => {
+	const validation = validateLevelScore(input, profile);
+	if (!validation.success) {
+		return {
+			success: false,
+			errors: validation.errors.map((issue) => `${[prefix, issue.path].filter((part) => part !== "").join(".")}: ${issue.message}`),
+		};
+	}
+
+	return { success: true, request: { name, input, warnings: validation.warnings } };
+};
+
+/**
+ * Parses a single level, which is either pre-aggregated inputs or a list of leaderboard `records`.
+ *
+ * - The shape is picked by the presence of `records`, so errors describe the shape that was meant
+ * - Inputs that pass the schema are checked with `validateLevelScore` as well
+ */
+const parseLevel = (
+	data: unknown,
+	profile: ScoringProfile,
+	prefix = "",
+): ParseLevelPointsRequestResult<LevelPointsRequestLevel> => {
+	const name = z.object({ name: z.string().optional() }).safeParse(data);
+	if (!name.success) {
+		return { success: false, errors: formatIssues(name.error, prefix) };
+	}
+
+	if (typeof data === "object" && data !== null && "records" in data) {
+		const parsed = leaderboardInputSchema.safeParse(data);
+		if (!parsed.success) {
+			return { success: false, errors: formatIssues(parsed.error, prefix) };
+		}
+
+		const imported = recordsToPlayers(parsed.data.records);
+		if (!imported.success) {
+			return { success: false, errors: imported.errors.map((error) => (prefix ? `${prefix}: ${error}` : error)) };
+		}
+
+		return validateLevel(
+			name.data.name ?? imported.level.name,
+			getLevelScoreInput({ players: imported.players, rating: parsed.data.levelRating }),
+			profile,
+			prefix,
+		);
+	}
+
+	const parsed = levelScoreInputSchema.safeParse(data);
+	if (!parsed.success) {
+		return { success: false, errors: formatIssues(parsed.error, prefix) };
+	}
+
+	return validateLevel(name.data.name, parsed.data, profile, prefix);
+};
+
+const parseOptions = (data: unknown): ParseLevelPointsRequestResult<LevelPointsRequestOptions> => {
+	const parsed = requestOptionsSchema.safeParse(data);
+	if (!parsed.success) {
+		return { success: false, errors: formatIssues(parsed.error) };
+	}
+
+	return {
+		success: true,
+		request: {
+			profile: createScoringProfile(parsed.data.profile ?? {}),
+			trace: parsed.data.trace,
+		},
+	};
+};
+
+/**
+ * Parses the body of a single level request.
+ *
+ * - The level's fields sit next to the optional `profile` overrides and `trace` flag
+ */
+export const parseLevelPointsRequest = (
+	data: unknown,
+): ParseLevelPointsRequestResult<LevelPointsRequestOptions & { level: LevelPointsRequestLevel }> => {
+	const options = parseOptions(data);
+	if (!options.success) {
+		return options;
+	}
+
+	const level = parseLevel(data, options.request.profile);
+	if (!level.success) {
+		return level;
+	}
+
+	return { success: true, request: { ...options.request, level: level.request } };
+};
+
+/**
+ * Parses the body of a batch request: `levels` plus `profile` and `trace` shared by every level.
+ *
+ * - Every level is validated; all problems are reported at once, prefixed with the level's index
+ */
+export const parseLevelPointsBatchRequest = (
+	data: unknown,
+): ParseLevelPointsRequestResult<LevelPointsRequestOptions & { levels: LevelPointsRequestLevel[] }> => {
+	const batch = batchRequestSchema.safeParse(data);
+	if (!batch.success) {
+		return { success: false, errors: formatIssues(batch.error) };
+	}
+
+	const options = parseOptions(data);
+	if (!options.success) {
+		return options;
+	}
+
+	const errors: string[] = [];
+	const levels: LevelPointsRequestLevel[] = [];
+
+	batch.data.levels.forEach((data, index) => {
+		const level = parseLevel(data, options.request.profile, `levels.${index}`);
+		if (level.success) {
+			levels.push(level.request);
+		} else {
+			errors.push(...level.errors);
+		}
+	});
+
+	if (errors.length > 0) {
+		return { success: false, errors };
+	}
+
+	return { success: true, request: { ...options.request, levels } };
+};
+
+/**
+ * Scores a parsed level, only building the trace when it was asked for.
+ *
+ * - Validation warnings are included when there are any
+ */
+export const scoreLevelPointsRequest = (
+	{ name, input, warnings }: LevelPointsRequestLevel,
+	{ profile, trace }: LevelPointsRequestOptions,
+): LevelPointsResponse => {
+	const result = trace ? explainLevelPoints(input, profile) : calculateLevelPoints(input, profile);
+
+	return {
+		...(name !== undefined ? { name } : {}),
+		...result,
+		...(warnings.length > 0 ? { warnings } : {}),
+	};
+};
@@ -0,0 +1,55 @@
+/**
+ * The votes players can cast in chat to rate a level.
+ */
+export type RatingVote = "++" | "+" | "-" | "--";
+
+export type RatingVoteCounts = Record<RatingVote, number>;
+
+export const RATING_VOTES: RatingVote[] = ["++", "+", "-", "--"];
+
+/**
+ * How much each vote is worth on the 0–100 rating scale.
+ *
+ * A ++ is the best possible rating and a -- the worst; a single + or - nudges the rating
+ * halfway from neutral (50) towards either end.
+ */
+export const RATING_VOTE_VALUES: Record<RatingVote, number> = {
+	"++": 100,
+	"+": 75,
+	"-": 25,
+	"--": 0,
+};
+
+export const EMPTY_RATING_VOTES: RatingVoteCounts = {
+	"++": 0,
+	"+": 0,
+	"-": 0,
+	"--": 0,
+};
+
+/**
+ * Returns the total number of votes cast.
+ */
+export const totalRatingVotes = (votes: RatingVoteCounts) => {
+	return RATING_VOTES.reduce((sum, vote) => sum + votes[vote], 0);
+};
+
+/**
+ * Converts vote counts to a level rating (0–100).
+ *
+ * - The rating is the average value of all votes (see `RATING_VOTE_VALUES`)
+ * - Returns null if nobody has voted, so callers can keep their current rating
+ * - Negative counts are ignored
+ */
+export const ratingFromVotes = (votes: RatingVoteCounts): number | null => {
+	let total = 0;
+	let sum = 0;
+
+	for (const vote of RATING_VOTES) {
+		const count = Math.max(0, votes[vote]);
+		total += count;
+		sum += count * RATING_VOTE_VALUES[vote];
+	}
+
+	return total > 0 ? sum / total : null;
+};
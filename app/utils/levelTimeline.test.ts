@@ -0,0 +1,77 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { time } from "./__fixtures__/arbitraries";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { getLevelScoreInput, type Level } from "./level";
+import { levelAsOf, levelPointsAsOf, levelPointsTimeline } from "./levelTimeline";
+
+const level: Pick<Level, "players" | "rating"> = {
+	rating: 80,
+	players: Array.from({ length: 12 }, (_, i) => ({
+		id: `player-${i}`,
+		name: `Player ${i + 1}`,
+		records: [
+			{ time: 60 - i, submittedAt: i * 10 },
+			{ time: 58 - i, submittedAt: i * 10 + 5 },
+		],
+	})),
+};
+
+describe("levelPointsTimeline", () => {
+	it("scores the level as it was at every submission, oldest first", () => {
+		const timeline = levelPointsTimeline(level);
+
+		expect(timeline).toHaveLength(24);
+		expect(timeline[0]).toMatchObject({ timestamp: 0, personalBests: 1, totalRecords: 1 });
+		expect(timeline.map((point) => point.timestamp)).toEqual([...timeline.map((point) => point.timestamp)].sort((a, b) => a - b));
+		timeline.forEach((point) => expect(point.points).toBe(levelPointsAsOf(level, point.timestamp).points));
+	});
+
+	it("scores every moment like levelPointsAsOf, also with records submitted at the same moment", () => {
+		const record = fc.record({ time, submittedAt: fc.integer({ min: 0, max: 20 }) });
+		const players = fc.array(fc.array(record, { maxLength: 4 }), { minLength: 1, maxLength: 60 });
+
+		fc.assert(
+			fc.property(players, (records) => {
+				const generated = {
+					rating: 80,
+					players: records.map((playerRecords, i) => ({ id: `player-${i}`, name: `Player ${i + 1}`, records: playerRecords })),
+				};
+
+				for (const point of levelPointsTimeline(generated)) {
+					const { personalBests, totalRecords } = getLevelScoreInput(levelAsOf(generated, point.timestamp));
+
+					expect(point).toEqual({
+						timestamp: point.timestamp,
+						points: levelPointsAsOf(generated, point.timestamp).points,
+						personalBests,
+						totalRecords,
+					});
+				}
+			}),
+		);
+	});
+
+	it("ends at the current points of the level", () => {
+		const timeline = levelPointsTimeline(level);
+
+		expect(timeline.at(-1)).toMatchObject({
+			timestamp: 115,
+			points: calculateLevelPoints(getLevelScoreInput(level)).points,
+			personalBests: 12,
+			totalRecords: 24,
+		});
+	});
+
+	it("samples many submissions down to the maximum, keeping the first and last", () => {
+		const timeline = levelPointsTimeline(level, undefined, 5);
+
+		expect(timeline).toHaveLength(5);
+		expect(timeline[0].timestamp).toBe(0);
+		expect(timeline.at(-1)?.timestamp).toBe(115);
+	});
+
+	it("is empty for a level without records", () => {
+		expect(levelPointsTimeline({ rating: 80, players: [] })).toEqual([]);
+	});
+});
@@ -0,0 +1,116 @@
+import { calculateLevelPoints, type CalculateLevelPointsResult } from "./calculateLevelPoints";
+import { getLevelScoreInput, type Level } from "./level";
+import { playersAsOf } from "./player";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+export interface LevelTimelinePoint {
+	/** Moment in milliseconds since the Unix epoch. */
+	timestamp: number;
+	points: number;
+	personalBests: number;
+	totalRecords: number;
+}
+
+/**
+ * Returns the level as it was at a moment in time, keeping only the records submitted by then.
+ */
+export const levelAsOf = <T extends Pick<Level, "players">>(level: T, timestamp: number): T => {
+	return { ...level, players: playersAsOf(level.players, timestamp) };
+};
+
+/**
+ * Returns every distinct moment a record was submitted, oldest first.
+ */
+export const levelSubmissionTimes = (level: Pick<Level, "players">) => {
+	const timestamps = new Set(level.players.flatMap((player) => player.records.map((record) => record.submittedAt)));
+	return [...timestamps].sort((a, b) => a - b);
+};
+
+/**
+ * Calculates the points a level was worth at a moment in time.
+ */
+export const levelPointsAsOf = (
+	level: Pick<Level, "players" | "rating">,
+	timestamp: number,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): CalculateLevelPointsResult => {
+	return calculateLevelPoints(getLevelScoreInput(levelAsOf(level, timestamp)), profile);
+};
+
+/**
+ * Returns the index of the first value in a sorted list that isn't below `value`.
+ */
+const sortedIndex = (sorted: number[], value: number) => {
+	let low = 0;
+	let high = sorted.length;
+
+	while (low < high) {
+		const middle = Math.floor((low + high) / 2);
+		if (sorted[middle] < value) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+
+	return low;
+};
+
+/**
+ * Traces the points of a level across the moments its records were submitted.
+ *
+ * - The current rating is used for every moment, as its history isn't recorded
+ * - Levels with many submissions are sampled down to `maxPoints` moments, always including the first and last
+ * - Records are replayed once in submission order, so every moment scores the same as `levelPointsAsOf`
+ *   without re-ranking the whole leaderboard
+ */
+export const levelPointsTimeline = (
+	level: Pick<Level, "players" | "rating">,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+	maxPoints = 200,
+): LevelTimelinePoint[] => {
+	const records = level.players
+		.flatMap((player, playerIndex) => player.records.map((record) => ({ playerIndex, ...record })))
+		.sort((a, b) => a.submittedAt - b.submittedAt);
+	const timestamps = records
+		.map((record) => record.submittedAt)
+		.filter((timestamp, index, all) => index === 0 || timestamp !== all[index - 1]);
+	const step = Math.max(1, (timestamps.length - 1) / Math.max(1, maxPoints - 1));
+	const sampled = timestamps.length <= maxPoints
+		? timestamps
+		: [...new Set(Array.from({ length: maxPoints }, (_, i) => timestamps[Math.round(i * step)]))];
+
+	const bestTimeByPlayer = new Map<number, number>();
+	// Best time of every player so far, fastest first
+	const bestTimes: number[] = [];
+	let replayed = 0;
+
+	return sampled.map((timestamp) => {
+		for (; replayed < records.length && records[replayed].submittedAt <= timestamp; replayed++) {
+			const { playerIndex, time } = records[replayed];
+			const previous = bestTimeByPlayer.get(playerIndex);
+
+			if (previous === undefined || time < previous) {
+				if (previous !== undefined) {
+					bestTimes.splice(sortedIndex(bestTimes, previous), 1);
+				}
+				bestTimes.splice(sortedIndex(bestTimes, time), 0, time);
+				bestTimeByPlayer.set(playerIndex, time);
+			}
+		}
+
+		const input = {
+			topTimes: bestTimes.slice(0, 50),
+			personalBests: bestTimes.length,
+			totalRecords: replayed,
+			levelRating: level.rating,
+		};
+
+		return {
+			timestamp,
+			points: calculateLevelPoints(input, profile).points,
+			personalBests: input.personalBests,
+			totalRecords: input.totalRecords,
+		};
+	});
+};
@@ -0,0 +1,102 @@
+import {
+	levelScoreCompetitivenessFromScores,
+	levelScoreCompetitivenessMultiplier,
+	levelScoreLengthMultiplier,
+	levelScorePopularityModifier,
+	levelScoreRatingModifier,
+	type CalculateLevelScore,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+export type ModifierCurveId =
+	| "length"
+	| "competitivenessSpread"
+	| "competitivenessPbRatio"
+	| "rating"
+	| "popularity";
+
+export interface ModifierCurvePoint {
+	input: number;
+	modifier: number;
+}
+
+export interface ModifierCurve {
+	id: ModifierCurveId;
+	label: string;
+	inputLabel: string;
+	points: ModifierCurvePoint[];
+	/** Where the current level sits on the curve, or null if the curve doesn't apply to it. */
+	current: ModifierCurvePoint | null;
+}
+
+const DEFAULT_SAMPLES = 60;
+
+/**
+ * Samples a function evenly between `min` and `max`, inclusive.
+ */
+const sample = (min: number, max: number, samples: number, modifier: (input: number) => number): ModifierCurvePoint[] => {
+	return Array.from({ length: samples }, (_, i) => {
+		const input = min + ((max - min) * i) / (samples - 1);
+		return { input, modifier: modifier(input) };
+	});
+};
+
+/**
+ * Plots every modifier over its input domain, with the current level's position on each curve.
+ *
+ * - Competitiveness depends on two scores, so it is plotted twice with the other score held at its current value
+ * - Competitiveness has no current position when the level has too few times and uses the fallback
+ */
+export const modifierCurves = (
+	input: CalculateLevelScore,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+	samples = DEFAULT_SAMPLES,
+): ModifierCurve[] => {
+	const { topTimes, personalBests, totalRecords, levelRating } = input;
+	const wrTime = topTimes[0] ?? 0;
+	const competitiveness = levelScoreCompetitivenessMultiplier(wrTime, topTimes, personalBests, totalRecords, profile);
+	const usesFallback = topTimes.length <= profile.minimumPbs;
+
+	return [
+		{
+			id: "length",
+			label: "WR Factor",
+			inputLabel: "WR time (s)",
+			points: sample(0, profile.length.endSeconds * 1.5, samples, (time) => levelScoreLengthMultiplier(time, profile)),
+			current: topTimes.length > 0
+				? { input: wrTime, modifier: levelScoreLengthMultiplier(wrTime, profile) }
+				: null,
+		},
+		{
+			id: "competitivenessSpread",
+			label: "Competitiveness by spread",
+			inputLabel: "Spread score",
+			points: sample(0, 1, samples, (spread) =>
+				levelScoreCompetitivenessFromScores(spread, competitiveness.pbRatio, profile).modifier),
+			current: usesFallback ? null : { input: competitiveness.spreadScore, modifier: competitiveness.modifier },
+		},
+		{
+			id: "competitivenessPbRatio",
+			label: "Competitiveness by PB ratio",
+			inputLabel: "PB ratio",
+			// A PB ratio of 0 has no defined grindiness, so the curve starts just above it
+			points: sample(0.01, 1, samples, (pbRatio) =>
+				levelScoreCompetitivenessFromScores(competitiveness.spreadScore, pbRatio, profile).modifier),
+			current: usesFallback ? null : { input: competitiveness.pbRatio, modifier: competitiveness.modifier },
+		},
+		{
+			id: "rating",
+			label: "Rating",
+			inputLabel: "Rating",
+			points: sample(0, 100, samples, (rating) => levelScoreRatingModifier(rating, profile)),
+			current: { input: levelRating, modifier: levelScoreRatingModifier(levelRating, profile) },
+		},
+		{
+			id: "popularity",
+			label: "Popularity",
+			inputLabel: "Personal bests",
+			points: sample(0, profile.popularity.pbCap * 1.2, samples, (pbs) => levelScorePopularityModifier(pbs, profile)),
+			current: { input: personalBests, modifier: levelScorePopularityModifier(personalBests, profile) },
+		},
+	];
+};
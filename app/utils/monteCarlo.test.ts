@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { Level } from "./level";
+import { histogram, percentile, runMonteCarlo, summariseSamples } from "./monteCarlo";
+import { createSeededRandom } from "./random";
+
+const level: Pick<Level, "players" | "rating"> = {
+	rating: 100,
+	players: Array.from({ length: 40 }, (_, i) => ({
+		id: `player-${i}`,
+		name: `Player ${i + 1}`,
+		records: [{ time: 30 + i * 0.75 + (i % 3) * 2, submittedAt: 0 }],
+	})),
+};
+
+describe("percentile", () => {
+	it("interpolates between the neighbouring values", () => {
+		const sorted = [10, 20, 30, 40, 50];
+
+		expect(percentile(sorted, 0)).toBe(10);
+		expect(percentile(sorted, 50)).toBe(30);
+		expect(percentile(sorted, 100)).toBe(50);
+		expect(percentile(sorted, 10)).toBe(14);
+		expect(percentile([], 50)).toBe(0);
+	});
+});
+
+describe("histogram", () => {
+	it("counts every value once, the largest in the last bin", () => {
+		const bins = histogram([1, 2, 2, 3, 4, 5], 4);
+
+		expect(bins.map((bin) => bin.count)).toEqual([1, 2, 1, 2]);
+		expect(bins[0].start).toBe(1);
+		expect(bins.at(-1)?.end).toBe(5);
+	});
+
+	it("is empty without values or bins", () => {
+		expect(histogram([], 5)).toEqual([]);
+		expect(histogram([1, 2], 0)).toEqual([]);
+	});
+});
+
+describe("summariseSamples", () => {
+	it("reports the spread of the samples", () => {
+		const report = summariseSamples([90, 100, 110, 100]);
+
+		expect(report.mean).toBe(100);
+		expect(report.standardDeviation).toBeCloseTo(Math.sqrt(50));
+		expect(report.coefficientOfVariation).toBeCloseTo(Math.sqrt(50) / 100);
+		expect([report.min, report.max, report.percentiles.p50]).toEqual([90, 110, 100]);
+	});
+});
+
+describe("runMonteCarlo", () => {
+	it("reproduces a report for the same seed", () => {
+		const model = { type: "bootstrap" } as const;
+
+		expect(runMonteCarlo(level, model, 50, createSeededRandom(11))).toEqual(runMonteCarlo(level, model, 50, createSeededRandom(11)));
+		expect(runMonteCarlo(level, model, 50, createSeededRandom(11)).samples).not.toEqual(runMonteCarlo(level, model, 50, createSeededRandom(12)).samples);
+	});
+
+	it("scores the whole level on every iteration when subsampling all players", () => {
+		const report = runMonteCarlo(level, { type: "subsample", fraction: 1 }, 20, createSeededRandom(3));
+
+		expect(new Set(report.samples).size).toBe(1);
+		expect(report.standardDeviation).toBe(0);
+	});
+});
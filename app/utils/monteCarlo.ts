@@ -0,0 +1,155 @@
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { getLevelScoreInput, type Level } from "./level";
+import type { Player } from "./player";
+import type { RandomSource } from "./random";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+import { simulateLeaderboard, type LeaderboardSimulationOptions } from "./simulateLeaderboard";
+
+/**
+ * How every Monte Carlo iteration builds its leaderboard.
+ *
+ * - `bootstrap` draws as many players as the level has, with replacement
+ * - `subsample` keeps a random `fraction` of the players, without replacement
+ * - `simulate` generates a completely new leaderboard
+ */
+export type MonteCarloModel =
+	| { type: "bootstrap" }
+	| { type: "subsample"; fraction: number }
+	| { type: "simulate"; options: LeaderboardSimulationOptions };
+
+export interface HistogramBin {
+	start: number;
+	end: number;
+	count: number;
+}
+
+export interface MonteCarloReport {
+	samples: number[];
+	mean: number;
+	standardDeviation: number;
+	/** Standard deviation relative to the mean; lower is more stable. */
+	coefficientOfVariation: number;
+	min: number;
+	max: number;
+	percentiles: {
+		p5: number;
+		p25: number;
+		p50: number;
+		p75: number;
+		p95: number;
+	};
+	histogram: HistogramBin[];
+}
+
+/**
+ * Returns the value below which `percentile`% of the sorted values fall, interpolating between neighbours.
+ */
+export const percentile = (sorted: number[], percentile: number) => {
+	if (sorted.length === 0) {
+		return 0;
+	}
+
+	const index = (sorted.length - 1) * (percentile / 100);
+	const lower = Math.floor(index);
+	const upper = Math.ceil(index);
+
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+/**
+ * Groups values into equally wide bins between the smallest and largest value.
+ */
+export const histogram = (values: number[], binCount: number): HistogramBin[] => {
+	if (values.length === 0 || binCount < 1) {
+		return [];
+	}
+
+	const min = Math.min(...values);
+	const max = Math.max(...values);
+	const width = (max - min) / binCount || 1;
+
+	const bins = Array.from({ length: binCount }, (_, i) => ({
+		start: min + i * width,
+		end: min + (i + 1) * width,
+		count: 0,
+	}));
+
+	for (const value of values) {
+		// The largest value belongs in the last bin instead of starting a new one
+		const index = Math.min(binCount - 1, Math.floor((value - min) / width));
+		bins[index].count++;
+	}
+
+	return bins;
+};
+
+/**
+ * Builds the leaderboard of a single iteration.
+ */
+const samplePlayers = (players: Player[], model: MonteCarloModel, random: RandomSource): Player[] => {
+	switch (model.type) {
+		case "bootstrap":
+			return players.map(() => players[Math.floor(random() * players.length)]);
+		case "subsample": {
+			const shuffled = [...players];
+			for (let i = shuffled.length - 1; i > 0; i--) {
+				const j = Math.floor(random() * (i + 1));
+				[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+			}
+			return shuffled.slice(0, Math.round(players.length * model.fraction));
+		}
+		case "simulate":
+			// Timestamps don't affect the points, so a fixed reference time keeps runs reproducible
+			return simulateLeaderboard(model.options, random, 0);
+	}
+};
+
+/**
+ * Summarises a list of sampled points.
+ */
+export const summariseSamples = (samples: number[], binCount = 20): MonteCarloReport => {
+	const sorted = [...samples].sort((a, b) => a - b);
+	const mean = samples.length > 0 ? samples.reduce((sum, value) => sum + value, 0) / samples.length : 0;
+	const variance = samples.length > 0
+		? samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length
+		: 0;
+	const standardDeviation = Math.sqrt(variance);
+
+	return {
+		samples,
+		mean,
+		standardDeviation,
+		coefficientOfVariation: mean !== 0 ? standardDeviation / mean : 0,
+		min: sorted[0] ?? 0,
+		max: sorted[sorted.length - 1] ?? 0,
+		percentiles: {
+			p5: percentile(sorted, 5),
+			p25: percentile(sorted, 25),
+			p50: percentile(sorted, 50),
+			p75: percentile(sorted, 75),
+			p95: percentile(sorted, 95),
+		},
+		histogram: histogram(samples, binCount),
+	};
+};
+
+/**
+ * Scores many resampled or regenerated versions of a level to judge how stable its points are.
+ *
+ * - The level's rating is kept for every iteration
+ * - Use a seeded random source to make a report reproducible
+ */
+export const runMonteCarlo = (
+	level: Pick<Level, "players" | "rating">,
+	model: MonteCarloModel,
+	iterations: number,
+	random: RandomSource,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): MonteCarloReport => {
+	const samples = Array.from({ length: iterations }, () => {
+		const players = samplePlayers(level.players, model, random);
+		return calculateLevelPoints(getLevelScoreInput({ players, rating: level.rating }), profile).points;
+	});
+
+	return summariseSamples(samples);
+};
@@ -0,0 +1,71 @@
+/**
+ * A single time set by a player.
+ */
+export interface PlayerRecord {
+	/** Time in seconds. */
+	time: number;
+	/** When the record was submitted, in milliseconds since the Unix epoch. */
+	submittedAt: number;
+}
+
+export interface Player {
+	id: string;
+	name: string;
+	records: PlayerRecord[];
+}
+
+export interface RankedPlayer {
+	player: Player;
+	/** 1-based leaderboard position. Players with equal best times share a rank. */
+	rank: number;
+	bestTime: number;
+}
+
+/**
+ * Returns the times of a player in the order they were added.
+ */
+export const playerTimes = (player: Player) => {
+	return player.records.map((record) => record.time);
+};
+
+/**
+ * Returns the best (lowest) time of a player, or null if the player has no records.
+ */
+export const playerBestTime = (player: Player) => {
+	return player.records.length > 0 ? Math.min(...playerTimes(player)) : null;
+};
+
+/**
+ * Returns the players as they were at a moment in time.
+ *
+ * - Only records submitted at or before `timestamp` are kept
+ * - Players without any of those records are left out
+ */
+export const playersAsOf = (players: Player[], timestamp: number): Player[] => {
+	return players
+		.map((player) => ({ ...player, records: player.records.filter((record) => record.submittedAt <= timestamp) }))
+		.filter((player) => player.records.length > 0);
+};
+
+/**
+ * Ranks players by their best (lowest) time.
+ *
+ * - Players without any times are left out
+ * - Equal best times share a rank, the next rank is skipped (1, 1, 3)
+ */
+export const rankPlayers = (players: Player[]): RankedPlayer[] => {
+	const sorted = players
+		.filter((player) => player.records.length > 0)
+		.map((player) => ({ player, bestTime: Math.min(...playerTimes(player)) }))
+		.sort((a, b) => a.bestTime - b.bestTime);
+
+	let rank = 0;
+
+	return sorted.map((entry, index) => {
+		if (index === 0 || entry.bestTime !== sorted[index - 1].bestTime) {
+			rank = index + 1;
+		}
+
+		return { ...entry, rank };
+	});
+};
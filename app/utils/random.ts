@@ -0,0 +1,76 @@
+/**
+ * A source of random numbers in [0, 1), like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * The serialisable position of a seeded random source, so generation can be resumed later.
+ */
+export interface RandomStream {
+	seed: number;
+	/** How many numbers have been drawn from the seed so far. */
+	position: number;
+}
+
+// mulberry32 advances its state by this amount for every number it draws
+const MULBERRY32_INCREMENT = 0x6d2b79f5;
+
+/**
+ * Creates a deterministic random source: the same seed always produces the same numbers.
+ *
+ * - Uses mulberry32, which is fast and more than random enough for simulated leaderboards
+ * - Starting at `position` skips that many numbers, without drawing them
+ */
+export const createSeededRandom = (seed: number, position = 0): RandomSource => {
+	let state = (seed + Math.imul(position, MULBERRY32_INCREMENT)) >>> 0;
+
+	return () => {
+		state = (state + MULBERRY32_INCREMENT) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+	};
+};
+
+/**
+ * Draws numbers from a stream and returns the value together with the advanced stream.
+ *
+ * - Drawing from the returned stream continues exactly where this draw stopped
+ */
+export const drawFromStream = <T>(stream: RandomStream, draw: (random: RandomSource) => T) => {
+	const random = createSeededRandom(stream.seed, stream.position);
+	let draws = 0;
+
+	const value = draw(() => {
+		draws++;
+		return random();
+	});
+
+	return { value, stream: { seed: stream.seed, position: stream.position + draws } };
+};
+
+/**
+ * Returns a random 32-bit seed.
+ */
+export const randomSeed = () => {
+	return Math.floor(Math.random() * 4_294_967_296);
+};
+
+/**
+ * Draws from a standard normal distribution (mean 0, standard deviation 1) using the Box-Muller transform.
+ */
+export const randomNormal = (random: RandomSource) => {
+	// 1 - random() is in (0, 1], so the logarithm is always finite
+	const u = 1 - random();
+	const v = random();
+
+	return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Draws from an exponential distribution with the given mean.
+ */
+export const randomExponential = (random: RandomSource, mean: number) => {
+	return -Math.log(1 - random()) * mean;
+};
@@ -0,0 +1,157 @@
+import { z } from "zod";
+
+/**
+ * Tunable constants used by the level point formula.
+ *
+ * Every modifier in `calculateLevelPoints.ts` reads its bounds and weights from a profile,
+ * so alternative balances can be trialled by passing a different profile instead of
+ * editing the formula itself.
+ */
+export interface ScoringProfile {
+	/** Points awarded to a level when every multiplier is exactly 1. */
+	basePoints: number;
+	/** Levels with this many PBs or fewer are treated as barely played. */
+	minimumPbs: number;
+	length: {
+		/** Multiplier for levels with a WR at or below `startSeconds`. */
+		min: number;
+		/** Multiplier for levels with a WR at or above `endSeconds`. */
+		max: number;
+		startSeconds: number;
+		endSeconds: number;
+	};
+	competitiveness: {
+		/** Multiplier used when there are not enough top times to judge competition. */
+		fallback: number;
+		spreadWeight: number;
+		grindinessWeight: number;
+		min: number;
+		max: number;
+	};
+	rating: {
+		/** Whether the rating modifier is part of the formula at all. */
+		enabled: boolean;
+		/**
+		 * How strongly the rating modifier pulls the points away from 1.
+		 * 0 ignores the rating, 1 applies the modifier as-is.
+		 */
+		weight: number;
+		/** Multiplier for a rating of 0. */
+		min: number;
+		/** Multiplier for a rating of 100. */
+		max: number;
+	};
+	popularity: {
+		/** Multiplier for a single PB. */
+		min: number;
+		/** Multiplier for `pbCap` PBs or more. */
+		max: number;
+		/** Multiplier used when a level has fewer than `minimumPbs` PBs. */
+		belowMinimum: number;
+		pbCap: number;
+	};
+}
+
+/**
+ * The balance currently used in-game.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+	basePoints: 2_500,
+	minimumPbs: 5,
+	length: {
+		min: 0.1,
+		max: 1,
+		startSeconds: 5,
+		endSeconds: 20,
+	},
+	competitiveness: {
+		fallback: 0.25,
+		spreadWeight: 0.65,
+		grindinessWeight: 0.2,
+		min: -3,
+		max: 3,
+	},
+	rating: {
+		enabled: false,
+		weight: 1,
+		min: 0.5,
+		max: 1.3,
+	},
+	popularity: {
+		min: 0.75,
+		max: 1.3,
+		belowMinimum: 0.8,
+		pbCap: 250,
+	},
+};
+
+/**
+ * Validates a scoring profile read from storage, a URL or a request.
+ */
+export const scoringProfileSchema = z.object({
+	basePoints: z.number().finite(),
+	minimumPbs: z.number().finite(),
+	length: z.object({
+		min: z.number().finite(),
+		max: z.number().finite(),
+		startSeconds: z.number().finite(),
+		endSeconds: z.number().finite(),
+	}),
+	competitiveness: z.object({
+		fallback: z.number().finite(),
+		spreadWeight: z.number().finite(),
+		grindinessWeight: z.number().finite(),
+		min: z.number().finite(),
+		max: z.number().finite(),
+	}),
+	rating: z.object({
+		enabled: z.boolean(),
+		weight: z.number().finite(),
+		min: z.number().finite(),
+		max: z.number().finite(),
+	}),
+	popularity: z.object({
+		min: z.number().finite(),
+		max: z.number().finite(),
+		belowMinimum: z.number().finite(),
+		pbCap: z.number().finite(),
+	}),
+}) satisfies z.ZodType<ScoringProfile>;
+
+/**
+ * Validates profile overrides, in which every group and value is optional.
+ */
+export const scoringProfileOverridesSchema = z.object({
+	basePoints: scoringProfileSchema.shape.basePoints,
+	minimumPbs: scoringProfileSchema.shape.minimumPbs,
+	length: scoringProfileSchema.shape.length.partial(),
+	competitiveness: scoringProfileSchema.shape.competitiveness.partial(),
+	rating: scoringProfileSchema.shape.rating.partial(),
+	popularity: scoringProfileSchema.shape.popularity.partial(),
+}).partial().strict();
+
+export type ScoringProfileOverrides = {
+	[K in keyof ScoringProfile]?: ScoringProfile[K] extends object
+		? Partial<ScoringProfile[K]>
+		: ScoringProfile[K];
+};
+
+/**
+ * Creates a profile from a base profile with some of its values replaced.
+ *
+ * - Nested groups (length, rating, ...) are merged, not replaced
+ * - Values that are not overridden are taken from `base`
+ */
+export const createScoringProfile = (
+	overrides: ScoringProfileOverrides,
+	base: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ScoringProfile => {
+	return {
+		basePoints: overrides.basePoints ?? base.basePoints,
+		minimumPbs: overrides.minimumPbs ?? base.minimumPbs,
+		length: { ...base.length, ...overrides.length },
+		competitiveness: { ...base.competitiveness, ...overrides.competitiveness },
+		rating: { ...base.rating, ...overrides.rating },
+		popularity: { ...base.popularity, ...overrides.popularity },
+	};
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { createLevel, getLevelScoreInput, type Level } from "./level";
+import { DEFAULT_SEASON_RULES, calculateSeasonStandings, type SeasonStanding } from "./season";
+
+/**
+ * Creates a level where each player sets one time, the first player fastest.
+ */
+const seasonLevel = (id: string, playerNames: string[], times?: number[]): Level => {
+	return {
+		...createLevel(`Level ${id}`),
+		id,
+		players: playerNames.map((name, index) => ({
+			id: `${id}-${index}`,
+			name,
+			records: [{ time: times?.[index] ?? 30 + index, submittedAt: 0 }],
+		})),
+	};
+};
+
+const levelPoints = (level: Level) => calculateLevelPoints(getLevelScoreInput(level)).points;
+
+describe("calculateSeasonStandings", () => {
+	it("sums the payouts of every level a player set a time on", () => {
+		const levels = [seasonLevel("a", ["Ann", "Bob"]), seasonLevel("b", ["Bob", "Ann"])];
+		const standings = calculateSeasonStandings(levels);
+		const ann = standings.find((standing) => standing.playerName === "Ann");
+
+		expect(ann?.levelsPlayed).toBe(2);
+		expect(ann?.total).toBe(levelPoints(levels[0]) + Math.round(levelPoints(levels[1]) / 2));
+	});
+
+	it("only counts the best N results towards the total", () => {
+		const levels = [
+			seasonLevel("a", ["Ann", "Bob"]),
+			seasonLevel("b", ["Bob", "Ann"]),
+			seasonLevel("c", ["Ann", "Bob"]),
+		];
+		const [ann] = calculateSeasonStandings(levels, { ...DEFAULT_SEASON_RULES, bestN: 2 });
+
+		expect(ann.playerName).toBe("Ann");
+		expect(ann.results.map((result) => result.counted)).toEqual([true, true, false]);
+		expect(ann.total).toBe(ann.results[0].points + ann.results[1].points);
+		expect(ann.levelsPlayed).toBe(3);
+	});
+
+	it("orders equal totals by the tie-breakers", () => {
+		// Both players win one of two equal levels; Ann also finishes last on a third level that the best-2 rule drops
+		const others = Array.from({ length: 19 }, (_, i) => `Other ${i + 1}`);
+		const levels = [seasonLevel("a", ["Ann", "Bob"]), seasonLevel("b", ["Bob", "Ann"]), seasonLevel("c", [...others, "Ann"])];
+		const rules = { ...DEFAULT_SEASON_RULES, bestN: 2 };
+		const order = (standings: SeasonStanding[]) => standings
+			.filter((standing) => standing.playerName === "Ann" || standing.playerName === "Bob")
+			.map((standing) => [standing.playerName, standing.total]);
+		const total = levelPoints(levels[0]) + Math.round(levelPoints(levels[1]) / 2);
+
+		// Bob's average rank is better, but Ann played more levels
+		expect(order(calculateSeasonStandings(levels, rules))).toEqual([["Bob", total], ["Ann", total]]);
+		expect(order(calculateSeasonStandings(levels, { ...rules, tieBreakers: ["levelsPlayed"] }))).toEqual([["Ann", total], ["Bob", total]]);
+	});
+
+	it("shares a rank between players equal on the total and every tie-breaker", () => {
+		const levels = [seasonLevel("a", ["Ann", "Bob", "Cat"], [30, 30, 31])];
+		const standings = calculateSeasonStandings(levels);
+
+		expect(standings.map((standing) => [standing.playerName, standing.rank])).toEqual([["Ann", 1], ["Bob", 1], ["Cat", 3]]);
+	});
+
+	it("keeps only the best result of a name listed twice on a level", () => {
+		const levels = [seasonLevel("a", ["Ann", "Bob", "Ann"])];
+		const [ann] = calculateSeasonStandings(levels);
+
+		expect(ann.results.map((result) => [result.levelId, result.rank])).toEqual([["a", 1]]);
+		expect(ann.total).toBe(levelPoints(levels[0]));
+		expect(ann.levelsPlayed).toBe(1);
+	});
+
+	it("skips levels without times", () => {
+		expect(calculateSeasonStandings([seasonLevel("a", [])])).toEqual([]);
+	});
+});
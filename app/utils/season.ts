@@ -0,0 +1,164 @@
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { DEFAULT_PAYOUT_CURVES, calculatePlayerPayouts, type PayoutCurve } from "./calculatePlayerPayouts";
+import { getLevelScoreInput, type Level } from "./level";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+/**
+ * How players with equal totals are ordered, tried one after another.
+ *
+ * - `wins`: more first places
+ * - `bestResult`: higher points on a single level
+ * - `averageRank`: lower average rank across the levels played
+ * - `levelsPlayed`: more levels with a time
+ */
+export type SeasonTieBreaker = "wins" | "bestResult" | "averageRank" | "levelsPlayed";
+
+export const SEASON_TIE_BREAKERS: SeasonTieBreaker[] = ["wins", "bestResult", "averageRank", "levelsPlayed"];
+
+export interface SeasonRules {
+	curve: PayoutCurve;
+	/** Only a player's best N level results count towards their total; null counts every level. */
+	bestN: number | null;
+	tieBreakers: SeasonTieBreaker[];
+}
+
+export const DEFAULT_SEASON_RULES: SeasonRules = {
+	curve: DEFAULT_PAYOUT_CURVES.linear,
+	bestN: null,
+	tieBreakers: SEASON_TIE_BREAKERS,
+};
+
+export interface SeasonLevelResult {
+	levelId: string;
+	levelName: string;
+	levelPoints: number;
+	rank: number;
+	points: number;
+	/** Whether the result counts towards the total under the best-N rule. */
+	counted: boolean;
+}
+
+export interface SeasonStanding {
+	playerName: string;
+	/** 1-based position in the season. Players equal on total and every tie-breaker share a rank. */
+	rank: number;
+	total: number;
+	levelsPlayed: number;
+	wins: number;
+	averageRank: number;
+	bestResult: number;
+	/** Results on every level the player set a time on, highest points first. */
+	results: SeasonLevelResult[];
+}
+
+/**
+ * Compares two standings by a tie-breaker; negative puts `a` first.
+ */
+const compareTieBreaker = (a: SeasonStanding, b: SeasonStanding, tieBreaker: SeasonTieBreaker) => {
+	switch (tieBreaker) {
+		case "wins":
+			return b.wins - a.wins;
+		case "bestResult":
+			return b.bestResult - a.bestResult;
+		case "averageRank":
+			return a.averageRank - b.averageRank;
+		case "levelsPlayed":
+			return b.levelsPlayed - a.levelsPlayed;
+	}
+};
+
+const compareStandings = (a: SeasonStanding, b: SeasonStanding, tieBreakers: SeasonTieBreaker[]) => {
+	if (a.total !== b.total) {
+		return b.total - a.total;
+	}
+
+	for (const tieBreaker of tieBreakers) {
+		const comparison = compareTieBreaker(a, b, tieBreaker);
+		if (comparison !== 0) {
+			return comparison;
+		}
+	}
+
+	return 0;
+};
+
+/**
+ * Names a tie-breaker in the rules picker and in the note below the standings.
+ */
+export const seasonTieBreakerLabel = (tieBreaker: SeasonTieBreaker) => {
+	switch (tieBreaker) {
+		case "wins":
+			return "Most wins";
+		case "bestResult":
+			return "Best single result";
+		case "averageRank":
+			return "Best average rank";
+		case "levelsPlayed":
+			return "Most levels played";
+	}
+};
+
+/**
+ * Ranks players across every level of a season.
+ *
+ * - Every level is scored with the profile and its points are paid out along the rules' curve
+ * - Players are matched across levels by name, as player ids are unique per level
+ * - A name listed more than once on a level only counts with its best result there
+ * - Only the best N results of a player count towards their total
+ * - Equal totals are ordered by the tie-breakers; players equal on all of them share a rank (1, 1, 3)
+ */
+export const calculateSeasonStandings = (
+	levels: Level[],
+	rules: SeasonRules = DEFAULT_SEASON_RULES,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): SeasonStanding[] => {
+	const resultsByPlayer = new Map<string, Omit<SeasonLevelResult, "counted">[]>();
+
+	for (const level of levels) {
+		const levelPoints = calculateLevelPoints(getLevelScoreInput(level), profile).points;
+
+		const paid = new Set<string>();
+
+		// Payouts are ordered by rank, so a name listed twice on a level keeps its best result
+		for (const payout of calculatePlayerPayouts(level.players, levelPoints, rules.curve)) {
+			if (paid.has(payout.name)) {
+				continue;
+			}
+
+			paid.add(payout.name);
+			resultsByPlayer.set(payout.name, [
+				...(resultsByPlayer.get(payout.name) ?? []),
+				{ levelId: level.id, levelName: level.name, levelPoints, rank: payout.rank, points: payout.points },
+			]);
+		}
+	}
+
+	const standings = [...resultsByPlayer].map(([playerName, results]): SeasonStanding => {
+		const sorted = [...results]
+			.sort((a, b) => b.points - a.points)
+			.map((result, index) => ({ ...result, counted: rules.bestN === null || index < rules.bestN }));
+
+		return {
+			playerName,
+			rank: 0,
+			total: sorted.filter((result) => result.counted).reduce((sum, result) => sum + result.points, 0),
+			levelsPlayed: sorted.length,
+			wins: sorted.filter((result) => result.rank === 1).length,
+			averageRank: sorted.reduce((sum, result) => sum + result.rank, 0) / sorted.length,
+			bestResult: sorted[0].points,
+			results: sorted,
+		};
+	});
+
+	standings.sort((a, b) => compareStandings(a, b, rules.tieBreakers));
+
+	let rank = 0;
+
+	return standings.map((standing, index) => {
+		if (index === 0 || compareStandings(standings[index - 1], standing, rules.tieBreakers) !== 0) {
+			rank = index + 1;
+		}
+
+		return { ...standing, rank };
+	});
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { calculateLevelPoints, type CalculateLevelScore } from "./calculateLevelPoints";
+import { analyseAllSensitivities, analyseSensitivity, sensitivityVariables } from "./sensitivityAnalysis";
+import { DEFAULT_SCORING_PROFILE, createScoringProfile } from "./scoringProfile";
+
+const profile = DEFAULT_SCORING_PROFILE;
+
+const input: CalculateLevelScore = {
+	topTimes: Array.from({ length: 20 }, (_, i) => 15 + i * 0.4),
+	personalBests: 20,
+	totalRecords: 80,
+	levelRating: 70,
+};
+
+describe("analyseSensitivity", () => {
+	it("sweeps the PBs from the number of top times, scaling the total records with them", () => {
+		const { curve } = analyseSensitivity(input, { type: "personalBests" }, profile);
+
+		expect(curve[0].value).toBe(20);
+		expect(curve.at(-1)?.value).toBe(profile.popularity.pbCap);
+		for (const { value, points } of curve) {
+			expect(points).toBe(calculateLevelPoints({ ...input, personalBests: value, totalRecords: value * 4 }, profile).points);
+		}
+	});
+
+	it("never sweeps the PBs to fewer total records than PBs", () => {
+		const { curve } = analyseSensitivity({ ...input, personalBests: 0, totalRecords: 0, topTimes: [] }, { type: "personalBests" }, profile);
+
+		for (const { value, points } of curve) {
+			expect(points).toBe(calculateLevelPoints({ ...input, topTimes: [], personalBests: value, totalRecords: value }, profile).points);
+		}
+	});
+
+	it("keeps the top times sorted when one of them moves past the others", () => {
+		const { curve } = analyseSensitivity(input, { type: "topTime", index: 1 }, profile);
+		const last = curve.at(-1);
+		const topTimes = [...input.topTimes.filter((_, i) => i !== 1), input.topTimes[1] * 2].sort((a, b) => a - b);
+
+		expect(last?.value).toBeCloseTo(input.topTimes[1] * 2);
+		expect(last?.points).toBe(calculateLevelPoints({ ...input, topTimes }, profile).points);
+	});
+
+	it("reports no change for the rating while it is disabled", () => {
+		const disabled = analyseSensitivity(input, { type: "levelRating" }, profile);
+		const enabled = analyseSensitivity(input, { type: "levelRating" }, createScoringProfile({ rating: { enabled: true } }));
+
+		expect(new Set(disabled.curve.map((point) => point.points)).size).toBe(1);
+		expect(disabled.derivative).toBe(0);
+		expect(disabled.elasticity).toBe(0);
+		expect(enabled.derivative).toBeGreaterThan(0);
+	});
+
+	it("measures more points for a longer WR time", () => {
+		const { derivative, elasticity, label } = analyseSensitivity(input, { type: "wrTime" }, profile);
+
+		expect(label).toBe("WR time");
+		expect(derivative).toBeGreaterThan(0);
+		expect(elasticity).toBeGreaterThan(0);
+	});
+});
+
+describe("sensitivityVariables", () => {
+	it("lists top times from #2 up to the limit", () => {
+		const topTimes = sensitivityVariables(input, 4).filter((variable) => variable.type === "topTime");
+
+		expect(topTimes).toEqual([1, 2, 3].map((index) => ({ type: "topTime", index })));
+		expect(analyseAllSensitivities(input, profile, 5).map((curve) => curve.label).slice(0, 5)).toEqual([
+			"WR time",
+			"Personal bests",
+			"Total records",
+			"Level rating",
+			"Top time #2",
+		]);
+	});
+});
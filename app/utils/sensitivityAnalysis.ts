@@ -0,0 +1,222 @@
+import {
+	calculateLevelPoints,
+	type CalculateLevelPointsResult,
+	type CalculateLevelScore,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+/**
+ * An input of `calculateLevelPoints` that can be perturbed.
+ *
+ * `topTime` perturbs a single entry of `topTimes`, identified by its 0-based index.
+ */
+export type SensitivityVariable =
+	| { type: "wrTime" }
+	| { type: "topTime"; index: number }
+	| { type: "personalBests" }
+	| { type: "totalRecords" }
+	| { type: "levelRating" };
+
+export interface SensitivityPoint {
+	value: number;
+	points: number;
+}
+
+export interface SensitivityCurve {
+	variable: SensitivityVariable;
+	label: string;
+	baseline: number;
+	curve: SensitivityPoint[];
+	/** Change in (unrounded) points per unit change of the input at the baseline. */
+	derivative: number;
+	/** Relative change in points per relative change of the input at the baseline. */
+	elasticity: number;
+}
+
+const DEFAULT_SAMPLES = 21;
+
+/**
+ * Returns the points before rounding, so small perturbations still register.
+ */
+const exactPoints = ({ contributions }: CalculateLevelPointsResult, profile: ScoringProfile) => {
+	return profile.basePoints *
+		contributions.length *
+		contributions.competitiveness *
+		contributions.rating *
+		contributions.popularity;
+};
+
+/**
+ * Replaces one top time and keeps the list sorted fastest first.
+ */
+const withTopTime = (topTimes: number[], index: number, time: number) => {
+	return topTimes
+		.map((current, i) => (i === index ? time : current))
+		.sort((a, b) => a - b);
+};
+
+/**
+ * Labels a swept input in the chart legend and table, numbering top times from 1.
+ */
+export const sensitivityVariableLabel = (variable: SensitivityVariable) => {
+	switch (variable.type) {
+		case "wrTime":
+			return "WR time";
+		case "topTime":
+			return `Top time #${variable.index + 1}`;
+		case "personalBests":
+			return "Personal bests";
+		case "totalRecords":
+			return "Total records";
+		case "levelRating":
+			return "Level rating";
+	}
+};
+
+/**
+ * Returns the current value of a variable in the input.
+ */
+const readVariable = (input: CalculateLevelScore, variable: SensitivityVariable) => {
+	switch (variable.type) {
+		case "wrTime":
+			return input.topTimes[0] ?? 0;
+		case "topTime":
+			return input.topTimes[variable.index] ?? 0;
+		case "personalBests":
+			return input.personalBests;
+		case "totalRecords":
+			return input.totalRecords;
+		case "levelRating":
+			return input.levelRating;
+	}
+};
+
+/**
+ * Returns the total records for a new number of PBs, keeping the records per PB of the input.
+ *
+ * - Never returns fewer records than PBs, as every PB is a record
+ */
+const scaledTotalRecords = (input: CalculateLevelScore, personalBests: number) => {
+	if (input.personalBests <= 0) {
+		return Math.max(input.totalRecords, personalBests);
+	}
+
+	return Math.max(personalBests, Math.round(personalBests * (input.totalRecords / input.personalBests)));
+};
+
+/**
+ * Returns a copy of the input with a variable set to a new value.
+ *
+ * - Changing the PBs scales the total records with them, so the input stays possible
+ */
+const writeVariable = (input: CalculateLevelScore, variable: SensitivityVariable, value: number): CalculateLevelScore => {
+	switch (variable.type) {
+		case "wrTime":
+			return { ...input, topTimes: withTopTime(input.topTimes, 0, value) };
+		case "topTime":
+			return { ...input, topTimes: withTopTime(input.topTimes, variable.index, value) };
+		case "personalBests":
+			return { ...input, personalBests: value, totalRecords: scaledTotalRecords(input, value) };
+		case "totalRecords":
+			return { ...input, totalRecords: value };
+		case "levelRating":
+			return { ...input, levelRating: value };
+	}
+};
+
+/**
+ * Returns the range a variable is swept across and whether it only takes whole numbers.
+ *
+ * - Times range from a quarter of the WR (or the WR itself for other top times) to double their value
+ * - Counts range from their lowest possible value to a multiple of their value; PBs never drop below the top times
+ * - Ratings always cover 0–100
+ */
+const variableRange = (input: CalculateLevelScore, variable: SensitivityVariable, profile: ScoringProfile) => {
+	const value = readVariable(input, variable);
+
+	switch (variable.type) {
+		case "wrTime":
+			return { min: value / 4, max: value * 2, integer: false };
+		case "topTime":
+			return { min: input.topTimes[0] ?? 0, max: value * 2, integer: false };
+		case "personalBests":
+			return { min: input.topTimes.length, max: Math.max(value * 2, profile.popularity.pbCap), integer: true };
+		case "totalRecords":
+			return { min: Math.max(1, input.personalBests), max: Math.max(value * 3, 10), integer: true };
+		case "levelRating":
+			return { min: 0, max: 100, integer: false };
+	}
+};
+
+/**
+ * Lists every variable that can be perturbed for the input.
+ *
+ * - Individual top times are listed from #2 onwards, #1 is the WR time
+ */
+export const sensitivityVariables = (input: CalculateLevelScore, maxTopTimes = 10): SensitivityVariable[] => {
+	const topTimeVariables = input.topTimes
+		.slice(1, maxTopTimes)
+		.map((_, i): SensitivityVariable => ({ type: "topTime", index: i + 1 }));
+
+	return [
+		{ type: "wrTime" },
+		{ type: "personalBests" },
+		{ type: "totalRecords" },
+		{ type: "levelRating" },
+		...topTimeVariables,
+	];
+};
+
+/**
+ * Sweeps a single input across its range and measures how the level points respond.
+ *
+ * - Every other input stays at its current value, except the total records that scale with the PBs
+ * - The derivative is a central difference around the current value, using unrounded points
+ */
+export const analyseSensitivity = (
+	input: CalculateLevelScore,
+	variable: SensitivityVariable,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+	samples = DEFAULT_SAMPLES,
+): SensitivityCurve => {
+	const baseline = readVariable(input, variable);
+	const { min, max, integer } = variableRange(input, variable, profile);
+
+	const values = Array.from({ length: Math.max(2, samples) }, (_, i) => {
+		const value = min + ((max - min) * i) / (Math.max(2, samples) - 1);
+		return integer ? Math.round(value) : value;
+	});
+
+	const curve = [...new Set(values)].map((value) => ({
+		value,
+		points: calculateLevelPoints(writeVariable(input, variable, value), profile).points,
+	}));
+
+	const step = integer ? 1 : Math.max(Math.abs(baseline) * 0.01, 0.001);
+	const lower = exactPoints(calculateLevelPoints(writeVariable(input, variable, baseline - step), profile), profile);
+	const upper = exactPoints(calculateLevelPoints(writeVariable(input, variable, baseline + step), profile), profile);
+	const derivative = (upper - lower) / (2 * step);
+
+	const baselinePoints = exactPoints(calculateLevelPoints(input, profile), profile);
+	const elasticity = baselinePoints !== 0 ? (derivative * baseline) / baselinePoints : 0;
+
+	return {
+		variable,
+		label: sensitivityVariableLabel(variable),
+		baseline,
+		curve,
+		derivative,
+		elasticity,
+	};
+};
+
+/**
+ * Runs `analyseSensitivity` for every variable of the input.
+ */
+export const analyseAllSensitivities = (
+	input: CalculateLevelScore,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+	samples = DEFAULT_SAMPLES,
+): SensitivityCurve[] => {
+	return sensitivityVariables(input).map((variable) => analyseSensitivity(input, variable, profile, samples));
+};
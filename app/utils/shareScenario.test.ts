@@ -0,0 +1,76 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { rating, time } from "./__fixtures__/arbitraries";
+import { calculateLevelPoints } from "./calculateLevelPoints";
+import { createLevel, getLevelScoreInput } from "./level";
+import { createScenarioUrl, decodeScenario, encodeScenario, readScenarioParam } from "./shareScenario";
+import { createScoringProfile } from "./scoringProfile";
+import type { TrackerState } from "./trackerState";
+
+const trackerState = (times: number[][], levelRating: number): TrackerState => {
+	const level = createLevel("Shared", {
+		rating: levelRating,
+		players: times.map((playerTimes, index) => ({
+			id: `player-${index}`,
+			name: `Player ${index + 1}`,
+			records: playerTimes.map((time, record) => ({ time, submittedAt: 1_700_000_000_000 + record })),
+		})),
+	});
+
+	return {
+		levels: [{ ...createLevel("Other"), id: "other" }, level],
+		activeLevelId: level.id,
+		scoringProfile: createScoringProfile({ rating: { enabled: true } }),
+		randomTimeRange: { min: 30, max: 90 },
+		random: { seed: 7, position: 3 },
+	};
+};
+
+describe("shareScenario", () => {
+	it("shares only the active level", async () => {
+		const state = trackerState([[31.5]], 80);
+		const decoded = await decodeScenario(await encodeScenario(state));
+
+		expect(decoded?.levels).toEqual([state.levels[1]]);
+		expect(decoded?.activeLevelId).toBe(state.activeLevelId);
+		expect(decoded?.random).toEqual(state.random);
+	});
+
+	it("scores a decoded scenario exactly like the original", async () => {
+		await fc.assert(
+			fc.asyncProperty(fc.array(fc.array(time, { minLength: 1, maxLength: 3 }), { minLength: 1, maxLength: 60 }), rating, async (times, levelRating) => {
+				const state = trackerState(times, levelRating);
+				const decoded = await decodeScenario(await encodeScenario(state));
+				if (!decoded) {
+					throw new Error("The scenario couldn't be decoded");
+				}
+
+				const original = calculateLevelPoints(getLevelScoreInput(state.levels[1]), state.scoringProfile);
+				const shared = calculateLevelPoints(getLevelScoreInput(decoded.levels[0]), decoded.scoringProfile);
+
+				expect(shared).toEqual(original);
+				expect(decoded.levels[0].players).toEqual(state.levels[1].players);
+			}),
+			{ numRuns: 25 },
+		);
+	});
+
+	it("puts the scenario into the fragment of the link, where the server never sees it", async () => {
+		const state = trackerState([[31.5], [33.25, 32]], 80);
+		const url = new URL(await createScenarioUrl(state, "https://tracker.example/app?tab=levels"));
+		const encoded = readScenarioParam(url);
+
+		expect(url.search).toBe("?tab=levels");
+		expect(encoded).toBe(await encodeScenario(state));
+		expect((await decodeScenario(encoded ?? ""))?.levels).toEqual([state.levels[1]]);
+	});
+
+	it("still reads the scenario of older links from the query string", () => {
+		expect(readScenarioParam(new URL("https://tracker.example/?scenario=abc"))).toBe("abc");
+		expect(readScenarioParam(new URL("https://tracker.example/#other=1"))).toBeNull();
+	});
+
+	it("rejects text that isn't a scenario", async () => {
+		expect(await decodeScenario("not-a-scenario")).toBeNull();
+	});
+});
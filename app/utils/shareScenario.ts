@@ -0,0 +1,99 @@
+import { parseTrackerState, serialiseTrackerState, type TrackerState } from "./trackerState";
+
+/**
+ * Name of the parameter in the URL fragment that holds a shared scenario.
+ */
+export const SCENARIO_PARAM = "scenario";
+
+/**
+ * Length from which a link may be cut off or rejected by chat apps, mail clients and older browsers.
+ */
+export const LONG_SCENARIO_URL_LENGTH = 2000;
+
+/**
+ * Encodes bytes as URL-safe base64 without padding.
+ */
+const toBase64Url = (bytes: Uint8Array) => {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+	const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+	const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Runs bytes through a compression or decompression stream.
+ */
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+	const output = new Blob([bytes]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+/**
+ * Reduces a tracker state to the scenario that is shared: the active level and the scoring settings.
+ *
+ * - Times keep their full precision, so the shared scenario scores exactly like the original
+ */
+export const toScenarioState = (state: TrackerState): TrackerState => {
+	const activeLevel = state.levels.find((level) => level.id === state.activeLevelId) ?? state.levels[0];
+
+	return {
+		...state,
+		activeLevelId: activeLevel.id,
+		levels: [activeLevel],
+	};
+};
+
+/**
+ * Encodes a scenario as a compressed, URL-safe string.
+ */
+export const encodeScenario = async (state: TrackerState): Promise<string> => {
+	const json = JSON.stringify(serialiseTrackerState(toScenarioState(state)));
+	const compressed = await transform(new TextEncoder().encode(json), new CompressionStream("deflate-raw"));
+
+	return toBase64Url(compressed);
+};
+
+/**
+ * Decodes a scenario created by `encodeScenario`.
+ *
+ * - Returns null if the text is not a valid scenario
+ */
+export const decodeScenario = async (text: string): Promise<TrackerState | null> => {
+	try {
+		const decompressed = await transform(fromBase64Url(text), new DecompressionStream("deflate-raw"));
+		return parseTrackerState(JSON.parse(new TextDecoder().decode(decompressed)));
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Builds a link that opens the given scenario.
+ *
+ * - The scenario goes into the fragment, which browsers never send to the server, so its length isn't limited by
+ *   the server's header size
+ */
+export const createScenarioUrl = async (state: TrackerState, baseUrl: string): Promise<string> => {
+	const url = new URL(baseUrl);
+	url.hash = new URLSearchParams({ [SCENARIO_PARAM]: await encodeScenario(state) }).toString();
+
+	return url.toString();
+};
+
+/**
+ * Returns the encoded scenario of a link created by `createScenarioUrl`, or null if the link has none.
+ *
+ * - Older links that hold the scenario in the query string still open
+ */
+export const readScenarioParam = ({ hash, search }: Pick<Location, "hash" | "search">) => {
+	return new URLSearchParams(hash.replace(/^#/, "")).get(SCENARIO_PARAM) ?? new URLSearchParams(search).get(SCENARIO_PARAM);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { createSeededRandom } from "./random";
+import {
+	DEFAULT_LEADERBOARD_DISTRIBUTIONS,
+	simulateLeaderboard,
+	type LeaderboardSimulationOptions,
+} from "./simulateLeaderboard";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2026, 0, 1);
+
+const options: LeaderboardSimulationOptions = {
+	distribution: DEFAULT_LEADERBOARD_DISTRIBUTIONS.logNormal,
+	playerCount: 40,
+	attemptsPerPlayer: 5,
+	attemptSpread: 0.05,
+	improvementRate: 0.3,
+	activeDays: 10,
+};
+
+describe("simulateLeaderboard", () => {
+	it("reproduces the same players, times and timestamps for the same seed and reference time", () => {
+		expect(simulateLeaderboard(options, createSeededRandom(42), now)).toEqual(simulateLeaderboard(options, createSeededRandom(42), now));
+	});
+
+	it("submits every record within the active days before the reference time", () => {
+		const records = simulateLeaderboard(options, createSeededRandom(7), now).flatMap((player) => player.records);
+
+		expect(records).toHaveLength(options.playerCount * options.attemptsPerPlayer);
+		for (const { submittedAt } of records) {
+			expect(submittedAt).toBeGreaterThanOrEqual(now - 10 * DAY);
+			expect(submittedAt).toBeLessThanOrEqual(now);
+		}
+	});
+});
@@ -0,0 +1,158 @@
+import type { Player, PlayerRecord } from "./player";
+import {
+	randomExponential,
+	randomNormal,
+	type RandomSource,
+} from "./random";
+
+export interface SkillTier {
+	/** Relative share of players in this tier; shares don't need to add up to 1. */
+	share: number;
+	/** Smallest gap to the WR floor in seconds for a player in this tier. */
+	minGap: number;
+	/** Largest gap to the WR floor in seconds for a player in this tier. */
+	maxGap: number;
+}
+
+/**
+ * How the best possible time of each simulated player is distributed.
+ *
+ * All distributions except `uniform` put their times above `wrFloor`, the fastest time
+ * anyone can drive, with the gap to it following the named distribution.
+ */
+export type LeaderboardDistribution =
+	| { type: "uniform"; min: number; max: number }
+	| { type: "logNormal"; wrFloor: number; medianGap: number; sigma: number }
+	| { type: "exponential"; wrFloor: number; meanGap: number }
+	| { type: "skillTiers"; wrFloor: number; tiers: SkillTier[] };
+
+export type LeaderboardDistributionType = LeaderboardDistribution["type"];
+
+export interface LeaderboardSimulationOptions {
+	distribution: LeaderboardDistribution;
+	playerCount: number;
+	attemptsPerPlayer: number;
+	/** How much slower than their best possible time an attempt can be, relative to it (0.05 is 5%). */
+	attemptSpread: number;
+	/**
+	 * How much closer to their best possible time players get with every attempt (0–1).
+	 * 0 keeps every attempt equally spread, 1 makes every attempt after the first a perfect run.
+	 */
+	improvementRate: number;
+	/** Number the generated player names start counting from. */
+	firstPlayerNumber?: number;
+	/** How many days of play the records are spread across, ending at the reference time. Defaults to 30. */
+	activeDays?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_ACTIVE_DAYS = 30;
+
+/**
+ * The settings each distribution starts with when it is picked in the simulation panel.
+ *
+ * - Every distribution starts at 30 seconds, like the default range of uniformly random times
+ */
+export const DEFAULT_LEADERBOARD_DISTRIBUTIONS: {
+	[Type in LeaderboardDistributionType]: Extract<LeaderboardDistribution, { type: Type }>;
+} = {
+	uniform: { type: "uniform", min: 30, max: 90 },
+	logNormal: { type: "logNormal", wrFloor: 30, medianGap: 4, sigma: 0.8 },
+	exponential: { type: "exponential", wrFloor: 30, meanGap: 5 },
+	skillTiers: {
+		type: "skillTiers",
+		wrFloor: 30,
+		tiers: [
+			{ share: 0.05, minGap: 0, maxGap: 1 },
+			{ share: 0.25, minGap: 1, maxGap: 4 },
+			{ share: 0.5, minGap: 4, maxGap: 12 },
+			{ share: 0.2, minGap: 12, maxGap: 40 },
+		],
+	},
+};
+
+/**
+ * Draws the best possible time of a single player.
+ */
+export const sampleSkillTime = (distribution: LeaderboardDistribution, random: RandomSource) => {
+	switch (distribution.type) {
+		case "uniform":
+			return distribution.min + random() * (distribution.max - distribution.min);
+		case "logNormal":
+			return distribution.wrFloor +
+				Math.exp(Math.log(distribution.medianGap) + distribution.sigma * randomNormal(random));
+		case "exponential":
+			return distribution.wrFloor + randomExponential(random, distribution.meanGap);
+		case "skillTiers": {
+			const totalShare = distribution.tiers.reduce((sum, tier) => sum + tier.share, 0);
+			let pick = random() * totalShare;
+
+			for (const tier of distribution.tiers) {
+				if (pick < tier.share) {
+					return distribution.wrFloor + tier.minGap + random() * (tier.maxGap - tier.minGap);
+				}
+				pick -= tier.share;
+			}
+
+			return distribution.wrFloor;
+		}
+	}
+};
+
+/**
+ * Simulates the attempts of a player with a given best possible time.
+ *
+ * - No attempt is faster than the best possible time
+ * - With an improvement rate, the spread of every attempt shrinks compared to the one before
+ */
+export const simulateAttempts = (
+	skillTime: number,
+	{ attemptsPerPlayer, attemptSpread, improvementRate }: Pick<LeaderboardSimulationOptions, "attemptsPerPlayer" | "attemptSpread" | "improvementRate">,
+	random: RandomSource,
+): number[] => {
+	return Array.from({ length: attemptsPerPlayer }, (_, attempt) => {
+		const spread = attemptSpread * Math.pow(1 - improvementRate, attempt);
+		return skillTime * (1 + spread * Math.abs(randomNormal(random)));
+	});
+};
+
+/**
+ * Spreads the attempts of a player across the active period.
+ *
+ * - Most players start soon after release, fewer join later on
+ * - Attempts follow each other at random intervals and never go past the end of the period
+ */
+const simulateSubmissions = (attempts: number[], releasedAt: number, activeDays: number, random: RandomSource): PlayerRecord[] => {
+	const end = releasedAt + activeDays * DAY;
+	let submittedAt = releasedAt + randomExponential(random, (activeDays * DAY) / 4);
+
+	return attempts.map((time) => {
+		const record = { time, submittedAt: Math.round(Math.min(end, submittedAt)) };
+		submittedAt += randomExponential(random, (activeDays * DAY) / (4 * attempts.length));
+		return record;
+	});
+};
+
+/**
+ * Simulates a whole leaderboard.
+ *
+ * - The same options, seeded random source and reference time always produce the same players, times and timestamps
+ * - Players are named "Player <n>" and their attempts are in the order they were driven
+ * - Records are submitted across the `activeDays` days before `now`, in milliseconds since the Unix epoch
+ */
+export const simulateLeaderboard = (options: LeaderboardSimulationOptions, random: RandomSource, now: number): Player[] => {
+	const firstPlayerNumber = options.firstPlayerNumber ?? 1;
+	const activeDays = options.activeDays ?? DEFAULT_ACTIVE_DAYS;
+	const releasedAt = now - activeDays * DAY;
+
+	return Array.from({ length: options.playerCount }, (_, i) => {
+		const skillTime = sampleSkillTime(options.distribution, random);
+		const attempts = simulateAttempts(skillTime, options, random);
+
+		return {
+			id: `${now}-${i}`,
+			name: `Player ${firstPlayerNumber + i}`,
+			records: simulateSubmissions(attempts, releasedAt, activeDays, random),
+		};
+	});
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Player } from "./player";
+import { timeDistribution } from "./timeDistribution";
+
+const players = (bestTimes: number[]): Player[] => {
+	return bestTimes.map((time, i) => ({
+		id: `player-${i}`,
+		name: `Player ${i + 1}`,
+		records: [{ time: time + 5, submittedAt: 0 }, { time, submittedAt: 1 }],
+	}));
+};
+
+describe("timeDistribution", () => {
+	it("puts every best time into one of the bins, the slowest into the last", () => {
+		const { histogram } = timeDistribution(players([10, 11, 12, 13, 14, 15, 16, 17, 18, 20]), undefined, 5);
+
+		expect(histogram.map((bin) => bin.count)).toEqual([2, 2, 2, 2, 2]);
+		expect(histogram[0].start).toBe(10);
+		expect(histogram.at(-1)?.end).toBe(20);
+	});
+
+	it("uses no more bins than there are players", () => {
+		expect(timeDistribution(players([30, 40, 50])).histogram).toHaveLength(3);
+	});
+
+	it("puts equal times into a single bin", () => {
+		expect(timeDistribution(players([25, 25, 25]), undefined, 10).histogram.map((bin) => bin.count)).toEqual([3, 0, 0]);
+	});
+
+	it("lists the cumulative share and gap to the WR of every player", () => {
+		const distribution = timeDistribution(players([12, 10, 10, 15]));
+
+		expect(distribution.cumulative).toEqual([
+			{ time: 10, share: 0.25 },
+			{ time: 10, share: 0.5 },
+			{ time: 12, share: 0.75 },
+			{ time: 15, share: 1 },
+		]);
+		expect(distribution.gapToWr).toEqual([
+			{ rank: 1, gap: 0 },
+			{ rank: 1, gap: 0 },
+			{ rank: 3, gap: 2 },
+			{ rank: 4, gap: 5 },
+		]);
+	});
+
+	it("leaves out the averages while the competitiveness factor falls back", () => {
+		expect(timeDistribution(players([10, 11, 12])).averages).toBeNull();
+		expect(timeDistribution(players([10, 11, 12, 13, 14, 15])).averages).toMatchObject({ wrTime: 10, avgTop10: 12.5, avgTop50: 12.5 });
+	});
+});
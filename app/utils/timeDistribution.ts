@@ -0,0 +1,64 @@
+import { levelScoreCompetitivenessMultiplier } from "./calculateLevelPoints";
+import { histogram, type HistogramBin } from "./monteCarlo";
+import { rankPlayers, type Player } from "./player";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+export interface CumulativeDistributionPoint {
+	time: number;
+	/** Share of players (0–1) with a best time at or below `time`. */
+	share: number;
+}
+
+export interface GapToWrPoint {
+	rank: number;
+	gap: number;
+}
+
+export interface TimeDistribution {
+	histogram: HistogramBin[];
+	cumulative: CumulativeDistributionPoint[];
+	gapToWr: GapToWrPoint[];
+	/** The averages behind the competitiveness spread score, or null while the competitiveness factor falls back. */
+	averages: {
+		wrTime: number;
+		avgTop10: number;
+		avgTop50: number;
+		spreadScore: number;
+	} | null;
+}
+
+/**
+ * Describes how the best times of a leaderboard are distributed.
+ *
+ * - The histogram and cumulative distribution cover every player, not just the top 50
+ * - Gaps to the WR are listed per rank; tied players share a rank
+ * - The averages are the ones `levelScoreCompetitivenessMultiplier` turns into the spread score
+ */
+export const timeDistribution = (
+	players: Player[],
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+	binCount = 20,
+): TimeDistribution => {
+	const ranked = rankPlayers(players);
+	const bestTimes = ranked.map((entry) => entry.bestTime);
+	const wrTime = bestTimes[0] ?? 0;
+
+	const topTimes = bestTimes.slice(0, 50);
+	const totalRecords = players.reduce((sum, player) => sum + player.records.length, 0);
+	const competitiveness = levelScoreCompetitivenessMultiplier(wrTime, topTimes, ranked.length, totalRecords, profile);
+	const fallsBack = topTimes.length <= profile.minimumPbs;
+
+	return {
+		histogram: histogram(bestTimes, Math.min(binCount, Math.max(1, bestTimes.length))),
+		cumulative: bestTimes.map((time, index) => ({ time, share: (index + 1) / bestTimes.length })),
+		gapToWr: ranked.map(({ rank, bestTime }) => ({ rank, gap: bestTime - wrTime })),
+		averages: fallsBack
+			? null
+			: {
+				wrTime,
+				avgTop10: competitiveness.avgTop10,
+				avgTop50: competitiveness.avgTop50,
+				spreadScore: competitiveness.spreadScore,
+			},
+	};
+};
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLevel } from "./level";
+import { DEFAULT_SCORING_PROFILE } from "./scoringProfile";
+import { TRACKER_STATE_VERSION, parseTrackerState, serialiseTrackerState, type TrackerState } from "./trackerState";
+
+const migratedAt = Date.UTC(2026, 0, 1);
+
+/**
+ * A state as version 1 of the tracker saved it: bare times and no random source.
+ */
+const versionOneState = {
+	levels: [{ ...createLevel("Old"), id: "old", players: [{ id: "p1", name: "Ann", times: [31.5, 30.25] }] }],
+	activeLevelId: "old",
+	scoringProfile: DEFAULT_SCORING_PROFILE,
+	randomTimeRange: { min: 30, max: 90 },
+};
+
+describe("parseTrackerState", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(migratedAt);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("restores a state of the current version", () => {
+		const state: TrackerState = {
+			...versionOneState,
+			levels: [{ ...createLevel("Current"), id: "current", players: [{ id: "p1", name: "Ann", records: [{ time: 30, submittedAt: 5 }] }] }],
+			activeLevelId: "current",
+			random: { seed: 3, position: 9 },
+		};
+
+		expect(parseTrackerState(serialiseTrackerState(state))).toEqual(state);
+	});
+
+	it("migrates a version 1 state up to the current version", () => {
+		const state = parseTrackerState({ version: 1, state: versionOneState });
+
+		expect(state?.random).toEqual({ seed: 1, position: 0 });
+		expect(state?.levels[0].players).toEqual([
+			{ id: "p1", name: "Ann", records: [{ time: 31.5, submittedAt: migratedAt }, { time: 30.25, submittedAt: migratedAt }] },
+		]);
+	});
+
+	it("migrates a version 2 state without replacing its random source", () => {
+		const state = parseTrackerState({ version: 2, state: { ...versionOneState, random: { seed: 5, position: 2 } } });
+
+		expect(state?.random).toEqual({ seed: 5, position: 2 });
+		expect(state?.levels[0].players[0].records).toHaveLength(2);
+	});
+
+	it("rejects malformed states of older versions instead of throwing", () => {
+		expect(parseTrackerState({ version: 1, state: null })).toBeNull();
+		expect(parseTrackerState({ version: 2, state: {} })).toBeNull();
+		expect(parseTrackerState({ version: 2, state: { ...versionOneState, levels: [{ players: [{ name: "Ann" }] }] } })).toBeNull();
+		expect(parseTrackerState({ version: 1, state: "levels" })).toBeNull();
+	});
+
+	it("rejects states from a newer version, without a version or with an invalid shape", () => {
+		expect(parseTrackerState({ version: TRACKER_STATE_VERSION + 1, state: versionOneState })).toBeNull();
+		expect(parseTrackerState(versionOneState)).toBeNull();
+		expect(parseTrackerState({ version: 0, state: versionOneState })).toBeNull();
+		expect(parseTrackerState({ version: TRACKER_STATE_VERSION, state: versionOneState })).toBeNull();
+	});
+});
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import type { Level } from "./level";
+import type { RandomStream } from "./random";
+import { scoringProfileSchema, type ScoringProfile } from "./scoringProfile";
+
+/**
+ * Everything needed to restore the tracker exactly as it was.
+ */
+export interface TrackerState {
+	levels: Level[];
+	activeLevelId: string;
+	scoringProfile: ScoringProfile;
+	randomTimeRange: {
+		min: number;
+		max: number;
+	};
+	/** Seed and position of the random source used to generate times. */
+	random: RandomStream;
+}
+
+/**
+ * A tracker state tagged with the version of its shape.
+ */
+export interface VersionedTrackerState {
+	version: number;
+	state: TrackerState;
+}
+
+/**
+ * Version of the `TrackerState` shape. Bump it and add a migration whenever the shape changes.
+ */
+export const TRACKER_STATE_VERSION = 3;
+
+const playerSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	records: z.array(z.object({
+		time: z.number().finite(),
+		submittedAt: z.number().finite(),
+	})),
+});
+
+const levelSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	players: z.array(playerSchema),
+	rating: z.number().finite(),
+	votes: z.object({
+		"++": z.number(),
+		"+": z.number(),
+		"-": z.number(),
+		"--": z.number(),
+	}),
+	metadata: z.object({
+		levelId: z.string().optional(),
+		workshopId: z.string().optional(),
+		author: z.string().optional(),
+	}),
+});
+
+export const trackerStateSchema = z.object({
+	levels: z.array(levelSchema).min(1),
+	activeLevelId: z.string(),
+	scoringProfile: scoringProfileSchema,
+	randomTimeRange: z.object({
+		min: z.number().finite(),
+		max: z.number().finite(),
+	}),
+	random: z.object({
+		seed: z.number().int(),
+		position: z.number().int().nonnegative(),
+	}),
+}) satisfies z.ZodType<TrackerState>;
+
+/**
+ * Upgrades a state from the version it is keyed by to the next version.
+ */
+const migrations: Record<number, (state: unknown) => unknown> = {
+	// Version 2 added the seeded random source
+	1: (state) => ({ ...(state as object), random: { seed: 1, position: 0 } }),
+	// Version 3 replaced the bare times of players with timestamped records;
+	// older times are treated as submitted at the moment of the migration
+	2: (state) => {
+		const { levels, ...rest } = state as { levels: { players: { times: number[] }[] }[] };
+		const migratedAt = Date.now();
+
+		return {
+			...rest,
+			levels: levels.map((level) => ({
+				...level,
+				players: level.players.map(({ times, ...player }) => ({
+					...player,
+					records: times.map((time) => ({ time, submittedAt: migratedAt })),
+				})),
+			})),
+		};
+	},
+};
+
+/**
+ * Tags a tracker state with the current version.
+ */
+export const serialiseTrackerState = (state: TrackerState): VersionedTrackerState => {
+	return { version: TRACKER_STATE_VERSION, state };
+};
+
+/**
+ * Restores a tracker state that was serialised by any version of the tracker.
+ *
+ * - Older versions are migrated one version at a time up to the current version
+ * - Returns null if the data is not a tracker state, comes from a newer version or has no migration path
+ * - Migrations expect the shape of their version; malformed older states are rejected instead of throwing
+ */
+export const parseTrackerState = (data: unknown): TrackerState | null => {
+	const versioned = z.object({ version: z.number().int(), state: z.unknown() }).safeParse(data);
+	if (!versioned.success || versioned.data.version > TRACKER_STATE_VERSION) {
+		return null;
+	}
+
+	let { version, state } = versioned.data;
+	while (version < TRACKER_STATE_VERSION) {
+		const migrate = migrations[version];
+		if (!migrate) {
+			return null;
+		}
+
+		try {
+			state = migrate(state);
+		} catch {
+			return null;
+		}
+		version++;
+	}
+
+	const parsed = trackerStateSchema.safeParse(state);
+	return parsed.success ? parsed.data : null;
+};
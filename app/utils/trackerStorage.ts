@@ -0,0 +1,182 @@
+import { z } from "zod";
+import {
+	parseTrackerState,
+	serialiseTrackerState,
+	type TrackerState,
+} from "./trackerState";
+
+const STATE_KEY = "zeepkist-level-points:state";
+const SNAPSHOTS_KEY = "zeepkist-level-points:snapshots";
+
+export interface TrackerSnapshot {
+	id: string;
+	name: string;
+	/** ISO 8601 timestamp. */
+	createdAt: string;
+	/** ISO 8601 timestamp. */
+	updatedAt: string;
+	/** The state as it was saved, possibly by an older version; read it with `parseTrackerState`. */
+	data: unknown;
+}
+
+const snapshotSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	createdAt: z.string(),
+	updatedAt: z.string(),
+	// Validated and migrated separately when the snapshot is loaded
+	data: z.unknown(),
+});
+
+/**
+ * Returns localStorage, or null during server rendering or when storage is blocked.
+ */
+const getStorage = (): Storage | null => {
+	try {
+		return typeof window === "undefined" ? null : window.localStorage;
+	} catch {
+		return null;
+	}
+};
+
+const readJson = (key: string): unknown => {
+	const raw = getStorage()?.getItem(key);
+	if (!raw) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(raw);
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Stores a value as JSON. Returns false if storage is unavailable or full.
+ */
+const writeJson = (key: string, value: unknown) => {
+	const storage = getStorage();
+	if (!storage) {
+		return false;
+	}
+
+	try {
+		storage.setItem(key, JSON.stringify(value));
+		return true;
+	} catch {
+		// Thrown when the quota is exceeded or storage is disabled
+		return false;
+	}
+};
+
+/**
+ * Loads the automatically saved tracker state, or null if there is none or it can't be read.
+ */
+export const loadTrackerState = (): TrackerState | null => {
+	return parseTrackerState(readJson(STATE_KEY));
+};
+
+/**
+ * Saves the tracker state so it survives a page refresh.
+ *
+ * - Returns false if the state couldn't be stored, e.g. because storage is full
+ */
+export const saveTrackerState = (state: TrackerState) => {
+	return writeJson(STATE_KEY, serialiseTrackerState(state));
+};
+
+/**
+ * Lists every saved snapshot, newest first. Unreadable snapshots are left out.
+ */
+export const listSnapshots = (): TrackerSnapshot[] => {
+	const parsed = z.array(z.unknown()).safeParse(readJson(SNAPSHOTS_KEY));
+	if (!parsed.success) {
+		return [];
+	}
+
+	return parsed.data
+		.map((snapshot) => snapshotSchema.safeParse(snapshot))
+		.flatMap((result): TrackerSnapshot[] => (result.success ? [{ ...result.data, data: result.data.data }] : []))
+		.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+const writeSnapshots = (snapshots: TrackerSnapshot[]) => {
+	return writeJson(SNAPSHOTS_KEY, snapshots);
+};
+
+/**
+ * Saves the tracker state as a new named snapshot.
+ *
+ * - Returns null if the snapshot couldn't be stored
+ */
+export const saveSnapshot = (name: string, state: TrackerState): TrackerSnapshot | null => {
+	const now = new Date().toISOString();
+	const snapshot: TrackerSnapshot = {
+		id: Date.now().toString(),
+		name,
+		createdAt: now,
+		updatedAt: now,
+		data: serialiseTrackerState(state),
+	};
+
+	return writeSnapshots([snapshot, ...listSnapshots()]) ? snapshot : null;
+};
+
+/**
+ * Loads the state stored in a snapshot, migrating it if it was saved by an older version.
+ *
+ * - Returns null if the snapshot doesn't exist or can't be migrated
+ */
+export const loadSnapshot = (id: string): TrackerState | null => {
+	const snapshot = listSnapshots().find((s) => s.id === id);
+	return snapshot ? parseTrackerState(snapshot.data) : null;
+};
+
+/**
+ * Copies a snapshot under the name "<name> (copy)".
+ *
+ * - Returns null if the snapshot doesn't exist or the copy couldn't be stored
+ */
+export const duplicateSnapshot = (id: string): TrackerSnapshot | null => {
+	const snapshots = listSnapshots();
+	const original = snapshots.find((s) => s.id === id);
+	if (!original) {
+		return null;
+	}
+
+	const now = new Date().toISOString();
+	const copy: TrackerSnapshot = {
+		...original,
+		id: Date.now().toString(),
+		name: `${original.name} (copy)`,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	return writeSnapshots([copy, ...snapshots]) ? copy : null;
+};
+
+/**
+ * Renames a snapshot. Does nothing if it doesn't exist.
+ *
+ * - Returns false if the change couldn't be stored
+ */
+export const renameSnapshot = (id: string, name: string) => {
+	return writeSnapshots(
+		listSnapshots().map((snapshot) =>
+			snapshot.id === id
+				? { ...snapshot, name, updatedAt: new Date().toISOString() }
+				: snapshot,
+		),
+	);
+};
+
+/**
+ * Deletes a snapshot. Does nothing if it doesn't exist.
+ *
+ * - Returns false if the change couldn't be stored
+ */
+export const deleteSnapshot = (id: string) => {
+	return writeSnapshots(listSnapshots().filter((snapshot) => snapshot.id !== id));
+};
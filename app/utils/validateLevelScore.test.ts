@@ -0,0 +1,96 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { levelInput } from "./__fixtures__/arbitraries";
+import { calculateLevelPoints, type CalculateLevelScore } from "./calculateLevelPoints";
+import { safeCalculateLevelPoints, validateLevelScore, type LevelScoreIssue } from "./validateLevelScore";
+
+const input: CalculateLevelScore = {
+	topTimes: Array.from({ length: 10 }, (_, i) => 30 + i),
+	personalBests: 40,
+	totalRecords: 120,
+	levelRating: 80,
+};
+
+const issues = (changes: Partial<CalculateLevelScore>) => {
+	const validation = validateLevelScore({ ...input, ...changes });
+	const all: LevelScoreIssue[] = [...(validation.success ? [] : validation.errors), ...validation.warnings];
+
+	return all.map(({ code, severity, path }) => ({ code, severity, path }));
+};
+
+describe("validateLevelScore", () => {
+	it("accepts every input the tracker builds", () => {
+		fc.assert(
+			fc.property(levelInput, (generated) => {
+				expect(validateLevelScore(generated).success).toBe(true);
+			}),
+		);
+	});
+
+	it("rejects top times that aren't finite", () => {
+		expect(issues({ topTimes: [30, Number.NaN, 32, 33, 34, 35] })).toEqual([
+			{ code: "not-finite", severity: "error", path: "topTimes.1" },
+		]);
+	});
+
+	it("rejects top times of zero seconds or less", () => {
+		expect(issues({ topTimes: [-1, 0, 30, 31, 32, 33] })).toEqual([
+			{ code: "non-positive-time", severity: "error", path: "topTimes.0" },
+			{ code: "non-positive-time", severity: "error", path: "topTimes.1" },
+		]);
+	});
+
+	it("rejects top times that aren't sorted fastest first", () => {
+		expect(issues({ topTimes: [30, 31, 33, 32, 34, 35] })).toEqual([
+			{ code: "unsorted-top-times", severity: "error", path: "topTimes.3" },
+		]);
+	});
+
+	it("rejects negative counts and warns about fractional ones", () => {
+		expect(issues({ totalRecords: -1 })).toContainEqual({ code: "negative-count", severity: "error", path: "totalRecords" });
+		expect(issues({ personalBests: 40.5 })).toEqual([{ code: "non-integer-count", severity: "warning", path: "personalBests" }]);
+		expect(issues({ totalRecords: Number.POSITIVE_INFINITY })).toEqual([{ code: "not-finite", severity: "error", path: "totalRecords" }]);
+	});
+
+	it("rejects more PBs than records", () => {
+		expect(issues({ personalBests: 121 })).toEqual([{ code: "pbs-exceed-records", severity: "error", path: "personalBests" }]);
+	});
+
+	it("rejects more top times than PBs", () => {
+		expect(issues({ personalBests: 9 })).toEqual([{ code: "top-times-exceed-pbs", severity: "error", path: "topTimes" }]);
+	});
+
+	it("warns about ratings outside 0–100 and rejects ratings that aren't finite", () => {
+		expect(issues({ levelRating: 120 })).toEqual([{ code: "rating-out-of-range", severity: "warning", path: "levelRating" }]);
+		expect(issues({ levelRating: Number.NaN })).toEqual([{ code: "not-finite", severity: "error", path: "levelRating" }]);
+	});
+
+	it("warns about too few PBs for the competitiveness factor", () => {
+		expect(issues({ topTimes: [30, 31, 32, 33, 34] })).toEqual([{ code: "too-few-pbs", severity: "warning", path: "topTimes" }]);
+	});
+
+	it("warns about a level without records", () => {
+		expect(issues({ topTimes: [], personalBests: 0, totalRecords: 0 })).toEqual([
+			{ code: "no-records", severity: "warning", path: "totalRecords" },
+		]);
+	});
+});
+
+describe("safeCalculateLevelPoints", () => {
+	it("calculates the points of a valid level together with its warnings", () => {
+		const outOfRange = { ...input, levelRating: 150 };
+
+		expect(safeCalculateLevelPoints(outOfRange)).toEqual({
+			success: true,
+			result: calculateLevelPoints(outOfRange),
+			warnings: validateLevelScore(outOfRange).warnings,
+		});
+	});
+
+	it("refuses to calculate points for inputs with errors", () => {
+		const result = safeCalculateLevelPoints({ ...input, topTimes: [32, 30, 31, 33, 34, 35] });
+
+		expect(result.success).toBe(false);
+		expect(!result.success && result.errors.map((issue) => issue.code)).toEqual(["unsorted-top-times"]);
+	});
+});
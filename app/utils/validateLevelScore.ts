@@ -0,0 +1,167 @@
+import {
+	calculateLevelPoints,
+	type CalculateLevelPointsResult,
+	type CalculateLevelScore,
+} from "./calculateLevelPoints";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoringProfile";
+
+export type LevelScoreIssueCode =
+	| "not-finite"
+	| "non-positive-time"
+	| "unsorted-top-times"
+	| "negative-count"
+	| "non-integer-count"
+	| "pbs-exceed-records"
+	| "top-times-exceed-pbs"
+	| "rating-out-of-range"
+	| "too-few-pbs"
+	| "no-records";
+
+/**
+ * A problem with the inputs of a level.
+ *
+ * - Errors make the calculated points meaningless
+ * - Warnings still allow a calculation, but the points are probably not what was intended
+ */
+export interface LevelScoreIssue {
+	code: LevelScoreIssueCode;
+	severity: "error" | "warning";
+	/** Input the issue was found in, e.g. `topTimes.3` or `levelRating`. */
+	path: string;
+	message: string;
+}
+
+export type ValidateLevelScoreResult =
+	| { success: true; input: CalculateLevelScore; warnings: LevelScoreIssue[] }
+	| { success: false; errors: LevelScoreIssue[]; warnings: LevelScoreIssue[] };
+
+export type SafeCalculateLevelPointsResult =
+	| { success: true; result: CalculateLevelPointsResult; warnings: LevelScoreIssue[] }
+	| { success: false; errors: LevelScoreIssue[]; warnings: LevelScoreIssue[] };
+
+const error = (code: LevelScoreIssueCode, path: string, message: string): LevelScoreIssue => {
+	return { code, severity: "error", path, message };
+};
+
+const warning = (code: LevelScoreIssueCode, path: string, message: string): LevelScoreIssue => {
+	return { code, severity: "warning", path, message };
+};
+
+/**
+ * Checks a record count (PBs or total records).
+ */
+const validateCount = (value: number, path: string): LevelScoreIssue[] => {
+	if (!Number.isFinite(value)) {
+		return [error("not-finite", path, `${path} must be a finite number`)];
+	}
+
+	if (value < 0) {
+		return [error("negative-count", path, `${path} can't be negative`)];
+	}
+
+	if (!Number.isInteger(value)) {
+		return [warning("non-integer-count", path, `${path} should be a whole number`)];
+	}
+
+	return [];
+};
+
+/**
+ * Checks the inputs of a level for values that `calculateLevelPoints` would silently accept.
+ *
+ * - Every issue is reported at once, errors and warnings separately
+ * - Top times must be finite, positive and sorted from fastest to slowest
+ * - PBs can't exceed the total records, and there can't be more top times than PBs
+ * - Ratings outside 0–100 and too few PBs for the competitiveness factor are warnings
+ */
+export const validateLevelScore = (
+	input: CalculateLevelScore,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ValidateLevelScoreResult => {
+	const { topTimes, personalBests, totalRecords, levelRating } = input;
+	const issues: LevelScoreIssue[] = [];
+
+	topTimes.forEach((time, index) => {
+		const path = `topTimes.${index}`;
+
+		if (!Number.isFinite(time)) {
+			issues.push(error("not-finite", path, `Top time ${index + 1} must be a finite number`));
+		} else if (time <= 0) {
+			issues.push(error("non-positive-time", path, `Top time ${index + 1} must be a positive number of seconds`));
+		}
+	});
+
+	const unsortedIndex = topTimes.findIndex((time, index) => index > 0 && time < topTimes[index - 1]);
+	if (unsortedIndex > 0) {
+		issues.push(error(
+			"unsorted-top-times",
+			`topTimes.${unsortedIndex}`,
+			`Top times must be sorted from fastest to slowest; time ${unsortedIndex + 1} is faster than time ${unsortedIndex}`,
+		));
+	}
+
+	issues.push(...validateCount(personalBests, "personalBests"));
+	issues.push(...validateCount(totalRecords, "totalRecords"));
+
+	if (personalBests > totalRecords) {
+		issues.push(error(
+			"pbs-exceed-records",
+			"personalBests",
+			`There are more personal bests (${personalBests}) than records (${totalRecords})`,
+		));
+	}
+
+	if (topTimes.length > personalBests) {
+		issues.push(error(
+			"top-times-exceed-pbs",
+			"topTimes",
+			`There are more top times (${topTimes.length}) than personal bests (${personalBests})`,
+		));
+	}
+
+	if (!Number.isFinite(levelRating)) {
+		issues.push(error("not-finite", "levelRating", "The rating must be a finite number"));
+	} else if (levelRating < 0 || levelRating > 100) {
+		issues.push(warning(
+			"rating-out-of-range",
+			"levelRating",
+			`The rating (${levelRating}) is outside 0–100 and is treated as ${Math.min(100, Math.max(0, levelRating))}`,
+		));
+	}
+
+	if (totalRecords === 0) {
+		issues.push(warning("no-records", "totalRecords", "The level has no records and is worth 0 points"));
+	} else if (topTimes.length <= profile.minimumPbs) {
+		issues.push(warning(
+			"too-few-pbs",
+			"topTimes",
+			`With ${profile.minimumPbs} or fewer top times the competitiveness factor falls back to ${profile.competitiveness.fallback}`,
+		));
+	}
+
+	const errors = issues.filter((issue) => issue.severity === "error");
+	const warnings = issues.filter((issue) => issue.severity === "warning");
+
+	return errors.length > 0
+		? { success: false, errors, warnings }
+		: { success: true, input, warnings };
+};
+
+/**
+ * Calculates the points a level is worth, refusing inputs with errors instead of returning a quietly wrong number.
+ */
+export const safeCalculateLevelPoints = (
+	input: CalculateLevelScore,
+	profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): SafeCalculateLevelPointsResult => {
+	const validation = validateLevelScore(input, profile);
+	if (!validation.success) {
+		return validation;
+	}
+
+	return {
+		success: true,
+		result: calculateLevelPoints(validation.input, profile),
+		warnings: validation.warnings,
+	};
+};
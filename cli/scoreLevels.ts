@@ -0,0 +1,190 @@
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { toCsv } from "../app/utils/csv";
+import { explainLevelPoints, type ExplainedLevelPointsResult } from "../app/utils/explainLevelPoints";
+import { importLeaderboardFile } from "../app/utils/importLeaderboard";
+import { getLevelScoreInput } from "../app/utils/level";
+import {
+	DEFAULT_SCORING_PROFILE,
+	createScoringProfile,
+	scoringProfileOverridesSchema,
+	type ScoringProfile,
+} from "../app/utils/scoringProfile";
+import { validateLevelScore } from "../app/utils/validateLevelScore";
+
+const EXIT_INVALID_INPUT = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: pnpm score-levels [options] <file...>
+
+Scores one or many level leaderboards (JSON or CSV, see the importer for the formats).
+
+Options:
+  --profile <file>   JSON scoring profile; missing values fall back to the default profile
+  --rating <number>  Rating (0-100) for levels that don't include one (default: 100)
+  --format <format>  table, json or csv (default: table)
+  --trace            Include the calculation trace (json only)
+  --help             Show this message
+
+Exits with 1 if any file can't be read or scored and 2 on invalid options.`;
+
+interface ScoredLevel {
+	file: string;
+	name: string;
+	result: ExplainedLevelPointsResult;
+}
+
+class UsageError extends Error {}
+
+const loadProfile = async (path: string | undefined): Promise<ScoringProfile> => {
+	if (!path) {
+		return DEFAULT_SCORING_PROFILE;
+	}
+
+	const parsed = scoringProfileOverridesSchema.safeParse(JSON.parse(await readFile(path, "utf8")));
+	if (!parsed.success) {
+		throw new UsageError(`Invalid scoring profile ${path}: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+	}
+
+	return createScoringProfile(parsed.data);
+};
+
+const scoreFile = async (path: string, rating: number, profile: ScoringProfile): Promise<ScoredLevel> => {
+	const text = await readFile(path, "utf8");
+	const imported = importLeaderboardFile(path, text);
+
+	if (!imported.success) {
+		throw new Error(imported.errors.join("\n  "));
+	}
+	for (const warning of imported.warnings) {
+		process.stderr.write(`${path}: warning: ${warning}\n`);
+	}
+
+	const input = getLevelScoreInput({
+		players: imported.players,
+		rating: imported.level.rating ?? rating,
+	});
+
+	const validation = validateLevelScore(input, profile);
+	for (const warning of validation.warnings) {
+		process.stderr.write(`${path}: warning: ${warning.message}\n`);
+	}
+	if (!validation.success) {
+		throw new Error(validation.errors.map((error) => error.message).join("\n  "));
+	}
+
+	return {
+		file: path,
+		name: imported.level.name ?? basename(path),
+		result: explainLevelPoints(input, profile),
+	};
+};
+
+const formatTable = (levels: ScoredLevel[]) => {
+	const rows = [
+		["Level", "Points", "Length", "Comp.", "Rating", "Pop."],
+		...levels.map(({ name, result }) => [
+			name,
+			result.points.toString(),
+			result.contributions.length.toFixed(3),
+			result.contributions.competitiveness.toFixed(3),
+			result.contributions.rating.toFixed(3),
+			result.contributions.popularity.toFixed(3),
+		]),
+	];
+	const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+	return rows
+		.map((row) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  "))
+		.join("\n") + "\n";
+};
+
+const formatCsv = (levels: ScoredLevel[]) => {
+	return toCsv([
+		["file", "level", "points", "length", "competitiveness", "rating", "popularity"],
+		...levels.map(({ file, name, result }) => [
+			file,
+			name,
+			result.points,
+			result.contributions.length,
+			result.contributions.competitiveness,
+			result.contributions.rating,
+			result.contributions.popularity,
+		]),
+	]);
+};
+
+const formatJson = (levels: ScoredLevel[], includeTrace: boolean) => {
+	const output = levels.map(({ file, name, result: { trace, ...result } }) => ({
+		file,
+		name,
+		...result,
+		...(includeTrace ? { trace } : {}),
+	}));
+
+	return JSON.stringify(output, null, 2) + "\n";
+};
+
+const main = async (): Promise<number> => {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			profile: { type: "string" },
+			rating: { type: "string", default: "100" },
+			format: { type: "string", default: "table" },
+			trace: { type: "boolean", default: false },
+			help: { type: "boolean", default: false },
+		},
+	});
+
+	if (values.help) {
+		process.stdout.write(USAGE + "\n");
+		return 0;
+	}
+
+	const rating = Number(values.rating);
+	if (positionals.length === 0) {
+		throw new UsageError("No level files given");
+	}
+	if (!Number.isFinite(rating) || rating < 0 || rating > 100) {
+		throw new UsageError(`Invalid rating: ${values.rating}`);
+	}
+	if (!["table", "json", "csv"].includes(values.format)) {
+		throw new UsageError(`Unknown format: ${values.format}`);
+	}
+
+	const profile = await loadProfile(values.profile);
+	const levels: ScoredLevel[] = [];
+	let failed = false;
+
+	for (const path of positionals) {
+		try {
+			levels.push(await scoreFile(path, rating, profile));
+		} catch (error) {
+			failed = true;
+			process.stderr.write(`${path}: ${(error as Error).message}\n`);
+		}
+	}
+
+	if (values.format === "json") {
+		process.stdout.write(formatJson(levels, values.trace));
+	} else if (values.format === "csv") {
+		process.stdout.write(formatCsv(levels));
+	} else {
+		process.stdout.write(formatTable(levels));
+	}
+
+	return failed ? EXIT_INVALID_INPUT : 0;
+};
+
+main().then(
+	(code) => {
+		process.exitCode = code;
+	},
+	(error) => {
+		const usage = error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS");
+		process.stderr.write(`${(error as Error).message}\n${usage ? `\n${USAGE}\n` : ""}`);
+		process.exitCode = usage ? EXIT_USAGE : EXIT_INVALID_INPUT;
+	},
+);